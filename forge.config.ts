@@ -9,14 +9,19 @@ import { FuseV1Options, FuseVersion } from '@electron/fuses';
 
 const config: ForgeConfig = {
   packagerConfig: {
-    asar: true,
+    asar: {
+      // The 7-Zip binary has to be executed from disk.
+      unpack: '**/node_modules/7zip-bin/**',
+    },
+    // Registers launcherpir:// in the macOS bundle; Windows and Linux register at runtime or via the MIME type below.
+    protocols: [{ name: 'launcher-pir', schemes: ['launcherpir'] }],
   },
   rebuildConfig: {},
   makers: [
     new MakerSquirrel({}),
     new MakerZIP({}, ['win32', 'darwin']),
-    new MakerRpm({}),
-    new MakerDeb({}),
+    new MakerRpm({ options: { mimeType: ['x-scheme-handler/launcherpir'] } }),
+    new MakerDeb({ options: { mimeType: ['x-scheme-handler/launcherpir'] } }),
   ],
   plugins: [
     new VitePlugin({
@@ -1,23 +1,153 @@
-import { app, BrowserWindow, BrowserWindowConstructorOptions, dialog, ipcMain, shell } from 'electron';
-import { constants as fsConstants, createWriteStream, existsSync, mkdirSync } from 'node:fs';
+import {
+  app,
+  BrowserWindow,
+  BrowserWindowConstructorOptions,
+  dialog,
+  ipcMain,
+  shell,
+  WebContents,
+} from 'electron';
+import { constants as fsConstants, createReadStream, createWriteStream, existsSync, mkdirSync } from 'node:fs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import started from 'electron-squirrel-startup';
 import { pipeline } from 'node:stream/promises';
 import { Readable, Transform } from 'node:stream';
-import extractZip from 'extract-zip';
+import { createHash, randomUUID } from 'node:crypto';
+
+import {
+  CliCommand,
+  CliRequest,
+  CliResult,
+  isCliReplyAddress,
+  listenForCliReplies,
+  openCliReplyChannel,
+  parseCliArgs,
+  printCliResult,
+} from './main/cli';
+import { createChecksumError, createHashingStream, hashFile, normalizeSha256 } from './main/checksum';
+import { flushLibraryDataSync, isLibraryData, LibraryData, loadLibraryData, saveLibraryData } from './main/dataStore';
+import { ensureFreeSpace, getDiskSpace } from './main/diskSpace';
+import {
+  assembleParts,
+  DownloadPart,
+  getArchivePathFromPart,
+  getPartPath,
+  isPartPath,
+  listExistingParts,
+  normalizeDownloadParts,
+} from './main/downloadParts';
+import { DeepLink, findDeepLinkArg, parseDeepLink, registerDeepLinkProtocol } from './main/deepLinks';
+import { createDownloadQueue } from './main/downloadQueue';
+import { isConfidentChoice, rankExecutables } from './main/executableDetection';
+import { isGameRunning, listRunningGames, trackGameProcess } from './main/gameProcesses';
+import { getHookLogPath, normalizeGameHooks, runHook } from './main/hooks';
+import {
+  ArchiveFormat,
+  ensureArchiveExtension,
+  estimateRemainingSeconds,
+  ExtractionProgress,
+  assertNoEscapingLinks,
+  assertSafeCompressionRatio,
+  findArchiveExtractor,
+  listArchiveFiles,
+  normalizeArchiveFormat,
+  resolveArchiveFormat,
+  stripArchiveExtension,
+  watchExtractedBytes,
+} from './main/extractors';
+import { buildSourceList, createSpeedMonitor } from './main/mirrors';
+import { assertSafeLibraryFolder, isSameOrInside, resolveInsideLibrary } from './main/libraryPaths';
+import { copyInstallation, listInstallationEntries } from './main/moveInstallation';
+import { createRateLimiter, isWithinTimeWindow, RateLimiter } from './main/rateLimiter';
+import { listDownloadHosts, resolveDownload } from './main/resolvers';
+import {
+  isNativeExecutable,
+  isWindowsExecutable,
+  launchExecutable,
+  listRunners,
+  normalizeGameRunner,
+  normalizeLaunchOptions,
+} from './main/runners';
+import { isHtmlResponse } from './main/resolvers/utils';
+import {
+  createGameShortcuts,
+  relocateGameShortcuts,
+  removeGameShortcuts,
+  ShortcutLocation,
+  ShortcutTarget,
+} from './main/shortcuts';
+import { getRetryDelay, waitFor } from './main/retry';
+import {
+  DEFAULT_LIBRARY_FOLDER,
+  getSettings,
+  LauncherSettings,
+  onSettingsChanged,
+  updateSettings,
+} from './main/settings';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
   app.quit();
 }
 
+let startupCliCommand: CliCommand | null = null;
+let cliExitCode = 0;
+
+try {
+  startupCliCommand = parseCliArgs(process.argv);
+} catch (error) {
+  printCliResult({ success: false, message: error instanceof Error ? error.message : String(error) });
+  cliExitCode = 1;
+}
+
+// A second launch (a clicked launcherpir:// link or a CLI command) hands its arguments to this instance and exits.
+// CLI commands wait for the results, which come back over `cliReplies`.
+const cliReplies = startupCliCommand ? listenForCliReplies() : null;
+const hasInstanceLock =
+  cliExitCode === 0 &&
+  app.requestSingleInstanceLock(cliReplies ? { cliReplyAddress: cliReplies.address } : undefined);
+
+if (hasInstanceLock) {
+  cliReplies?.close();
+} else if (cliReplies) {
+  cliReplies.wait().then((code) => app.exit(code));
+} else if (cliExitCode) {
+  app.exit(cliExitCode);
+} else {
+  app.quit();
+}
+
 let mainWindow: BrowserWindow | null = null;
+// Links that arrive before the renderer subscribed wait here until it asks for them.
+let pendingDeepLink: DeepLink | null = null;
+let rendererReady = false;
+// Same for CLI commands, which the renderer runs against its library and store state.
+let pendingCliRequests: CliRequest[] = [];
+let cliRendererReady = false;
+// Commands running without a visible window; the app quits once the last one finishes.
+const headlessCliRequests = new Set<string>();
+let headlessCliFailed = false;
+// Commands forwarded by a second launch answer it instead of printing here.
+const cliReplyChannels = new Map<string, ReturnType<typeof openCliReplyChannel>>();
 
 type ValidationResult =
   | { success: true; filePath: string }
   | { success: false; message: string };
 
+type GameLaunchPayload = {
+  executablePath: string;
+  gameId?: string;
+  runner?: unknown;
+  args?: unknown;
+  cwd?: unknown;
+  env?: unknown;
+  hooks?: unknown;
+};
+
+// Games whose pre-launch hook is still running, so a second click cannot start them twice.
+const launchingGames = new Set<string>();
+
 const validateExecutablePath = async (rawPath: string): Promise<ValidationResult> => {
   if (!rawPath || typeof rawPath !== 'string') {
     return { success: false, message: 'Informe um caminho válido.' };
@@ -25,7 +155,7 @@ const validateExecutablePath = async (rawPath: string): Promise<ValidationResult
 
   const normalized = path.normalize(rawPath.trim());
 
-  if (path.extname(normalized).toLowerCase() !== '.exe') {
+  if (process.platform === 'win32' && !isWindowsExecutable(normalized)) {
     return {
       success: false,
       message: 'Selecione um arquivo .exe válido.',
@@ -57,16 +187,31 @@ const validateExecutablePath = async (rawPath: string): Promise<ValidationResult
     };
   }
 
+  // Off Windows, .exe files go through Wine/Proton and anything else has to be a native binary.
+  if (!isWindowsExecutable(normalized) && !(await isNativeExecutable(normalized))) {
+    return {
+      success: false,
+      message: 'Selecione um arquivo .exe ou um executável nativo (ELF, .sh ou AppImage).',
+    };
+  }
+
   return { success: true, filePath: normalized };
 };
 
-const DOWNLOAD_DIR = process.platform === 'win32'
-  ? path.join('C:\\', 'LauGames')
-  : path.join(app.getPath('downloads'), 'LauGames');
+// Only folders registered in the settings are accepted as install roots.
+const resolveLibraryFolder = (requested?: string) => {
+  const { libraryFolders, defaultLibraryFolder } = getSettings();
+
+  if (requested && libraryFolders.includes(path.resolve(requested))) {
+    return path.resolve(requested);
+  }
+
+  return defaultLibraryFolder || DEFAULT_LIBRARY_FOLDER;
+};
 
-const ensureDownloadDir = () => {
-  if (!existsSync(DOWNLOAD_DIR)) {
-    mkdirSync(DOWNLOAD_DIR, { recursive: true });
+const ensureLibraryFolder = (folder: string) => {
+  if (!existsSync(folder)) {
+    mkdirSync(folder, { recursive: true });
   }
 };
 
@@ -76,65 +221,139 @@ const sanitizeFileName = (value: string) =>
     .replace(/_{2,}/g, '_')
     .replace(/^_+|_+$/g, '') || `jogo_${Date.now()}`;
 
-const ensureZipExtension = (fileName: string) =>
-  fileName.toLowerCase().endsWith('.zip') ? fileName : `${fileName}.zip`;
+type DownloadManifest = {
+  version: 1;
+  gameId: string;
+  sourceUrl: string;
+  fileName: string;
+  title?: string;
+  expectedExecutable?: string;
+  sha256?: string;
+  sizeBytes?: number;
+  mirrors?: string[];
+  archiveFormat?: ArchiveFormat;
+  /** Set on every part of a multi-part download; `sourceUrl` is the first part's URL. */
+  parts?: DownloadPart[];
+  /** Marks a part that was fully downloaded and verified. */
+  partCompleted?: boolean;
+  totalBytes: number;
+  chunkSize: number;
+  completedChunks: number[];
+  updatedAt: string;
+};
 
-const resolveDriveUrl = (url: URL) => {
-  const fileIdMatch = url.pathname.match(/\/file\/d\/([^/]+)/);
+type DownloadManifestMetadata = Pick<
+  DownloadManifest,
+  | 'gameId'
+  | 'sourceUrl'
+  | 'fileName'
+  | 'title'
+  | 'expectedExecutable'
+  | 'sha256'
+  | 'sizeBytes'
+  | 'mirrors'
+  | 'archiveFormat'
+  | 'parts'
+>;
+
+type DownloadCheckpoint = {
+  manifestPath: string;
+  metadata: DownloadManifestMetadata;
+};
 
-  if (fileIdMatch) {
-    return `https://drive.google.com/uc?export=download&id=${fileIdMatch[1]}`;
-  }
+const RANGE_CHUNK_SIZE = 8 * 1024 * 1024; // 8 MB
+const DOWNLOAD_MANIFEST_SUFFIX = '.download.json';
 
-  if (url.pathname.startsWith('/uc')) {
-    return url.toString();
-  }
+const getManifestPath = (targetPath: string) => `${targetPath}${DOWNLOAD_MANIFEST_SUFFIX}`;
 
-  return url.toString();
-};
+const readDownloadManifest = async (manifestPath: string): Promise<DownloadManifest | null> => {
+  try {
+    const raw = await fs.readFile(manifestPath, 'utf-8');
+    const parsed = JSON.parse(raw) as DownloadManifest;
 
-const resolveMediaFireUrl = async (rawUrl: string) => {
-  const response = await fetch(rawUrl);
+    if (parsed?.version !== 1 || !Array.isArray(parsed.completedChunks)) {
+      return null;
+    }
 
-  if (!response.ok) {
-    throw new Error('Não foi possível acessar o link do MediaFire.');
+    return parsed;
+  } catch {
+    return null;
   }
+};
+
+const writeDownloadManifest = async (manifestPath: string, manifest: DownloadManifest) => {
+  const tempPath = `${manifestPath}.tmp`;
+  const payload: DownloadManifest = { ...manifest, updatedAt: new Date().toISOString() };
+  await fs.writeFile(tempPath, JSON.stringify(payload), 'utf-8');
+  await fs.rename(tempPath, manifestPath);
+};
 
-  const html = await response.text();
-  const downloadLinkRegex = /href="(https?:\/\/download[^"']+)"/i;
-  const match = html.match(downloadLinkRegex);
+/** Removes a download in progress, including every part already fetched for a multi-part one. */
+const removeDownloadArtifacts = async (targetPath: string) => {
+  // Assembled RAR volume sets are tracked by their first volume; the rest goes too.
+  const files = isPartPath(targetPath) ? await listExistingParts(targetPath) : await listArchiveFiles(targetPath);
 
-  if (match && match[1]) {
-    return match[1].replace(/&amp;/g, '&');
+  for (const file of files) {
+    await fs.unlink(file).catch(() => undefined);
+    await fs.unlink(getManifestPath(file)).catch(() => undefined);
   }
+};
 
-  throw new Error('Não foi possível localizar o link direto do MediaFire.');
+const hasDownloadManifest = async (targetPath: string) => {
+  const files = isPartPath(targetPath) ? await listExistingParts(targetPath) : [targetPath];
+  return files.some((file) => existsSync(getManifestPath(file)));
 };
 
-const resolveDownloadUrl = async (rawUrl: string) => {
-  let parsed: URL;
+const removeArchiveFiles = async (archivePath: string) => {
+  const files = await listArchiveFiles(archivePath);
+  await Promise.all(files.map((file) => fs.unlink(file).catch(() => undefined)));
+};
 
-  try {
-    parsed = new URL(rawUrl);
-  } catch (error) {
-    throw new Error('URL inválida.');
+const findResumableDownload = async (
+  gameId: string,
+): Promise<{ targetPath: string; manifest: DownloadManifest } | null> => {
+  const manifestPaths: string[] = [];
+
+  for (const folder of getSettings().libraryFolders) {
+    const entries = await fs.readdir(folder).catch((): string[] => []);
+    entries
+      .filter((name) => name.endsWith(DOWNLOAD_MANIFEST_SUFFIX))
+      .forEach((name) => manifestPaths.push(path.join(folder, name)));
   }
 
-  const host = parsed.hostname.toLowerCase();
+  for (const manifestPath of manifestPaths) {
+    const manifest = await readDownloadManifest(manifestPath);
 
-  if (host.includes('drive.google')) {
-    return resolveDriveUrl(parsed);
-  }
+    if (!manifest || manifest.gameId !== gameId) {
+      continue;
+    }
 
-  if (host.includes('googleusercontent.com')) {
-    return parsed.toString();
-  }
+    const targetPath = manifestPath.slice(0, -DOWNLOAD_MANIFEST_SUFFIX.length);
+
+    if (!existsSync(targetPath)) {
+      await fs.unlink(manifestPath).catch(() => undefined);
+      continue;
+    }
 
-  if (host.includes('mediafire.com')) {
-    return resolveMediaFireUrl(parsed.toString());
+    return { targetPath, manifest };
   }
 
-  throw new Error('Apenas links do Google Drive ou MediaFire são aceitos.');
+  return null;
+};
+
+type DownloadThrottle = (size: number) => Promise<void>;
+
+type DownloadOptions = {
+  throttle?: DownloadThrottle;
+  /** Extra request headers required by the resolved host. */
+  headers?: Record<string, string>;
+  /** Called with the running total every time a range chunk is scheduled for another attempt. */
+  onChunkRetry?: (retries: number) => void;
+  /**
+   * Space the volume must still have once this file is complete: later parts
+   * plus the extraction. Defaults to the file's own size as the extraction estimate.
+   */
+  reserveBytes?: number;
 };
 
 const downloadFile = async (
@@ -142,30 +361,76 @@ const downloadFile = async (
   destinationPath: string,
   onProgress: (received: number, total?: number) => void,
   signal: AbortSignal,
-) => {
-  const info = await getDownloadInfo(url);
+  checkpoint: DownloadCheckpoint,
+  options: DownloadOptions = {},
+): Promise<{ sha256?: string }> => {
+  const info = await getDownloadInfo(url, options.headers);
+
+  if (info.length) {
+    const allocated = await getAllocatedBytes(destinationPath);
+    await ensureFreeSpace(
+      path.dirname(destinationPath),
+      info.length - allocated + (options.reserveBytes ?? info.length),
+      'o download e a extração',
+    );
+  }
 
   if (info.supportsRange && info.length && info.length > 0) {
     try {
-      await downloadFileWithRanges(url, destinationPath, info.length, onProgress, signal);
-      return;
+      return await downloadFileWithRanges(
+        url,
+        destinationPath,
+        info.length,
+        onProgress,
+        signal,
+        checkpoint,
+        options,
+      );
     } catch (error) {
       if (signal.aborted) {
         throw new Error('Download cancelado pelo usuário.');
       }
+
+      if (!(error instanceof Error) || error.name !== 'RangeNotSupportedError') {
+        throw error;
+      }
+
       console.warn('Download segmentado falhou, usando modo simples', error);
     }
   }
 
-  await downloadFileSingle(url, destinationPath, onProgress, signal);
+  await fs.unlink(checkpoint.manifestPath).catch(() => undefined);
+  return downloadFileSingle(url, destinationPath, onProgress, signal, options);
+};
+
+// Range targets are pre-allocated as sparse files, so count the blocks actually written.
+const getAllocatedBytes = async (filePath: string) => {
+  const stats = await fs.stat(filePath).catch(() => null);
+
+  if (!stats) {
+    return 0;
+  }
+
+  // NTFS does not make the truncated file sparse and reports no block count: all of it is taken.
+  if (process.platform === 'win32') {
+    return stats.size;
+  }
+
+  if (!stats.blocks) {
+    return 0;
+  }
+
+  return Math.min(stats.blocks * 512, stats.size);
 };
 
 const getDownloadInfo = async (
   url: string,
+  headers?: Record<string, string>,
 ): Promise<{ supportsRange: boolean; length?: number }> => {
   try {
     const headResponse = await fetch(url, {
       method: 'HEAD',
+      headers,
       redirect: 'follow',
     });
 
@@ -191,13 +456,19 @@ const downloadFileSingle = async (
   destinationPath: string,
   onProgress: (received: number, total?: number) => void,
   signal: AbortSignal,
+  { throttle, headers }: DownloadOptions = {},
 ) => {
-  const response = await fetch(url, { redirect: 'follow', signal });
+  const response = await fetch(url, { headers, redirect: 'follow', signal });
 
   if (!response.ok || !response.body) {
     throw new Error('Falha ao iniciar o download do arquivo.');
   }
 
+  if (isHtmlResponse(response)) {
+    await response.body.cancel();
+    throw new Error('O servidor retornou uma página HTML em vez do arquivo.');
+  }
+
   const total = response.headers.get('content-length')
     ? Number(response.headers.get('content-length'))
     : undefined;
@@ -208,95 +479,288 @@ const downloadFileSingle = async (
   const progressStream = createProgressStream((chunkSize) => {
     received += chunkSize;
     onProgress(received, total);
-  });
+  }, throttle);
+  const hash = createHash('sha256');
+
+  await pipeline(
+    readable,
+    progressStream,
+    createHashingStream(hash),
+    createWriteStream(destinationPath),
+  );
 
-  await pipeline(readable, progressStream, createWriteStream(destinationPath));
+  return { sha256: hash.digest('hex') };
 };
 
+type RangeChunk = { index: number; start: number; end: number };
+
+type QueuedChunk = { chunk: RangeChunk; attempt: number; readyAt: number };
+
 const downloadFileWithRanges = async (
   url: string,
   destinationPath: string,
   totalBytes: number,
   onProgress: (received: number, total?: number) => void,
   signal: AbortSignal,
-) => {
-  const CHUNK_SIZE = 8 * 1024 * 1024; // 8 MB
+  checkpoint: DownloadCheckpoint,
+  { throttle, headers, onChunkRetry }: DownloadOptions = {},
+): Promise<{ sha256: string }> => {
   const MAX_CONCURRENCY = 4;
+  const maxAttempts = getSettings().maxChunkAttempts;
 
-  await fs.writeFile(destinationPath, Buffer.alloc(0));
-  const handle = await fs.open(destinationPath, 'r+');
-  await handle.truncate(totalBytes);
-  await handle.close();
+  const chunks: RangeChunk[] = [];
+  for (let start = 0, index = 0; start < totalBytes; start += RANGE_CHUNK_SIZE, index += 1) {
+    const end = Math.min(totalBytes - 1, start + RANGE_CHUNK_SIZE - 1);
+    chunks.push({ index, start, end });
+  }
+
+  const previous = await readDownloadManifest(checkpoint.manifestPath);
+  const existingSize = await fs
+    .stat(destinationPath)
+    .then((stats) => stats.size)
+    .catch(() => -1);
+  const canResume =
+    previous !== null &&
+    previous.sourceUrl === checkpoint.metadata.sourceUrl &&
+    previous.totalBytes === totalBytes &&
+    previous.chunkSize === RANGE_CHUNK_SIZE &&
+    existingSize === totalBytes;
+
+  const manifest: DownloadManifest = {
+    version: 1,
+    ...checkpoint.metadata,
+    totalBytes,
+    chunkSize: RANGE_CHUNK_SIZE,
+    completedChunks: canResume && previous ? previous.completedChunks : [],
+    updatedAt: new Date().toISOString(),
+  };
 
-  const chunks: Array<{ start: number; end: number }> = [];
-  for (let start = 0; start < totalBytes; start += CHUNK_SIZE) {
-    const end = Math.min(totalBytes - 1, start + CHUNK_SIZE - 1);
-    chunks.push({ start, end });
+  if (!canResume) {
+    await fs.writeFile(destinationPath, Buffer.alloc(0));
+    const handle = await fs.open(destinationPath, 'r+');
+    await handle.truncate(totalBytes);
+    await handle.close();
   }
 
-  let downloaded = 0;
+  await writeDownloadManifest(checkpoint.manifestPath, manifest);
 
-  const downloadChunk = async ({ start, end }: { start: number; end: number }) => {
-    const controller = new AbortController();
-    const abortHandler = () => controller.abort();
-    signal.addEventListener('abort', abortHandler);
+  const completed = new Set(manifest.completedChunks);
+  let downloaded = chunks
+    .filter((chunk) => completed.has(chunk.index))
+    .reduce((sum, chunk) => sum + (chunk.end - chunk.start + 1), 0);
 
-    try {
-      const res = await fetch(url, {
-        headers: {
-          Range: `bytes=${start}-${end}`,
-        },
-        redirect: 'follow',
-        signal: controller.signal,
+  if (downloaded > 0) {
+    onProgress(downloaded, totalBytes);
+  }
+
+  const rangeController = new AbortController();
+  const abortRanges = () => rangeController.abort();
+  signal.addEventListener('abort', abortRanges);
+
+  // Chunks land out of order, so each run that continues the hashed prefix is read back
+  // while it is still in the page cache; only chunks from an earlier session come from disk.
+  const hash = createHash('sha256');
+  let hashedChunks = 0;
+  let hashError: unknown;
+  let hashChain: Promise<void> = Promise.resolve();
+  const advanceHash = () => {
+    hashChain = hashChain
+      .then(async () => {
+        while (
+          !hashError &&
+          !rangeController.signal.aborted &&
+          hashedChunks < chunks.length &&
+          completed.has(hashedChunks)
+        ) {
+          const { start, end } = chunks[hashedChunks];
+          for await (const data of createReadStream(destinationPath, { start, end })) {
+            hash.update(data as Buffer);
+          }
+          hashedChunks += 1;
+        }
+      })
+      .catch((error) => {
+        hashError = hashError ?? error;
       });
+  };
+  advanceHash();
+
+  let persistChain: Promise<void> = Promise.resolve();
+  const persistChunk = (index: number) => {
+    completed.add(index);
+    advanceHash();
+    persistChain = persistChain
+      .then(() =>
+        writeDownloadManifest(checkpoint.manifestPath, {
+          ...manifest,
+          completedChunks: Array.from(completed).sort((a, b) => a - b),
+        }),
+      )
+      .catch((error) => console.warn('Falha ao salvar progresso do download', error));
+  };
 
-      if (!res.ok || !res.status || res.status !== 206 || !res.body) {
-        throw new Error('O servidor não suportou downloads segmentados.');
-      }
+  const downloadChunk = async ({ index, start, end }: RangeChunk) => {
+    const res = await fetch(url, {
+      headers: {
+        ...headers,
+        Range: `bytes=${start}-${end}`,
+      },
+      redirect: 'follow',
+      signal: rangeController.signal,
+    });
 
-      const readable = Readable.fromWeb(res.body);
-      const progressStream = createProgressStream((chunkSize) => {
-        downloaded += chunkSize;
-        onProgress(downloaded, totalBytes);
-      });
+    // A full 200 response (or 416) means the host ignores ranges; anything else is worth retrying.
+    if (res.status === 200 || res.status === 416 || (res.ok && res.status !== 206)) {
+      const rangeError = new Error('O servidor não suportou downloads segmentados.');
+      rangeError.name = 'RangeNotSupportedError';
+      throw rangeError;
+    }
 
-      const writeStream = createWriteStream(destinationPath, {
-        flags: 'r+',
-        start,
-      });
+    if (!res.ok || !res.body) {
+      throw new Error(`O servidor respondeu com status ${res.status} ao baixar um trecho do arquivo.`);
+    }
+
+    let chunkReceived = 0;
+    const readable = Readable.fromWeb(res.body);
+    const progressStream = createProgressStream((chunkSize) => {
+      chunkReceived += chunkSize;
+      downloaded += chunkSize;
+      onProgress(downloaded, totalBytes);
+    }, throttle);
+
+    const writeStream = createWriteStream(destinationPath, {
+      flags: 'r+',
+      start,
+    });
 
+    try {
       await pipeline(readable, progressStream, writeStream);
-    } finally {
-      signal.removeEventListener('abort', abortHandler);
+    } catch (error) {
+      // Bytes of an unfinished chunk are fetched again on resume.
+      downloaded -= chunkReceived;
+      throw error;
     }
+
+    persistChunk(index);
   };
 
-  const concurrency = Math.min(MAX_CONCURRENCY, chunks.length);
-  const queue = chunks.slice();
+  const queue: QueuedChunk[] = chunks
+    .filter((chunk) => !completed.has(chunk.index))
+    .map((chunk) => ({ chunk, attempt: 1, readyAt: 0 }));
+  const concurrency = Math.min(MAX_CONCURRENCY, queue.length);
+  let firstError: unknown;
+  let retries = 0;
 
   const workers = Array.from({ length: concurrency }, async () => {
-    while (queue.length > 0) {
-      const chunk = queue.shift();
-      if (!chunk) {
+    while (queue.length > 0 && !rangeController.signal.aborted) {
+      const entry = queue.shift();
+      if (!entry) {
+        return;
+      }
+
+      await waitFor(entry.readyAt - Date.now(), rangeController.signal);
+      if (rangeController.signal.aborted) {
+        return;
+      }
+
+      try {
+        await downloadChunk(entry.chunk);
+      } catch (error) {
+        const retryable =
+          !signal.aborted &&
+          !rangeController.signal.aborted &&
+          entry.attempt < maxAttempts &&
+          !(error instanceof Error && error.name === 'RangeNotSupportedError');
+
+        if (retryable) {
+          retries += 1;
+          console.warn(
+            `Falha no trecho ${entry.chunk.index} (tentativa ${entry.attempt}/${maxAttempts}), tentando novamente`,
+            error,
+          );
+          // Back to the shared queue so whichever worker frees up first picks it up.
+          queue.push({
+            chunk: entry.chunk,
+            attempt: entry.attempt + 1,
+            readyAt: Date.now() + getRetryDelay(entry.attempt),
+          });
+          onChunkRetry?.(retries);
+          continue;
+        }
+
+        firstError = firstError ?? error;
+        rangeController.abort();
         return;
       }
-      await downloadChunk(chunk);
     }
   });
 
-  await Promise.all(workers);
+  try {
+    await Promise.all(workers);
+  } finally {
+    signal.removeEventListener('abort', abortRanges);
+    await Promise.all([persistChain, hashChain]);
+  }
+
+  if (firstError) {
+    throw firstError;
+  }
+
+  if (signal.aborted) {
+    throw new Error('Download cancelado pelo usuário.');
+  }
+
+  if (hashError) {
+    throw hashError;
+  }
+
+  return { sha256: hash.digest('hex') };
 };
 
 const createProgressStream = (
   onChunk: (size: number) => void,
+  throttle?: DownloadThrottle,
 ) =>
   new Transform({
     transform(chunk, _encoding, callback) {
       onChunk(chunk.length);
-      callback(null, chunk);
+
+      if (!throttle) {
+        callback(null, chunk);
+        return;
+      }
+
+      throttle(chunk.length).then(() => callback(null, chunk), callback);
     },
   });
 
+const getGlobalBandwidthLimit = () => {
+  const { bandwidthLimit, unlimitedSchedule } = getSettings();
+
+  if (
+    unlimitedSchedule.enabled &&
+    isWithinTimeWindow(new Date(), unlimitedSchedule.start, unlimitedSchedule.end)
+  ) {
+    return 0;
+  }
+
+  return bandwidthLimit;
+};
+
+const globalRateLimiter = createRateLimiter(getGlobalBandwidthLimit);
+const downloadRateLimits = new Map<string, number>();
+const downloadRateLimiters = new Map<string, RateLimiter>();
+
+const createDownloadThrottle = (gameId: string, signal: AbortSignal): DownloadThrottle => {
+  const limiter = createRateLimiter(() => downloadRateLimits.get(gameId) ?? 0);
+  downloadRateLimiters.set(gameId, limiter);
+
+  return async (size) => {
+    await globalRateLimiter.consume(size, signal);
+    await limiter.consume(size, signal);
+  };
+};
+
 const ensureUniqueDirectory = (baseDir: string, desiredName: string) => {
   let targetDir = path.join(baseDir, desiredName);
   let counter = 1;
@@ -311,18 +775,27 @@ const ensureUniqueDirectory = (baseDir: string, desiredName: string) => {
   return targetDir;
 };
 
-const findExecutable = async (dir: string, expected?: string): Promise<string | undefined> => {
+/**
+ * The catalog's `expectedExecutable` wins when it matches; otherwise every
+ * executable is ranked and the best one is only used when the ranking is confident.
+ */
+const locateExecutable = async (dir: string, expected?: string, gameTitle?: string) => {
   if (expected) {
     const normalized = expected.replace(/\\/g, '/').toLowerCase();
     const expectedFile = normalized.split('/').pop();
 
     const match = await findExecutableMatching(dir, normalized, expectedFile ?? null, dir);
     if (match) {
-      return match;
+      return { executablePath: match, candidates: [] };
     }
   }
 
-  return findFirstExecutable(dir);
+  const candidates = await rankExecutables(dir, gameTitle);
+
+  return {
+    executablePath: isConfidentChoice(candidates) ? candidates[0].path : undefined,
+    candidates,
+  };
 };
 
 const findExecutableMatching = async (
@@ -341,7 +814,7 @@ const findExecutableMatching = async (
       if (nested) {
         return nested;
       }
-    } else if (entry.isFile() && fullPath.toLowerCase().endsWith('.exe')) {
+    } else if (entry.isFile()) {
       const relative = path.relative(root, fullPath).replace(/\\/g, '/').toLowerCase();
       const fileName = path.basename(fullPath).toLowerCase();
 
@@ -358,47 +831,82 @@ const findExecutableMatching = async (
   return undefined;
 };
 
-const findFirstExecutable = async (dir: string): Promise<string | undefined> => {
-  const entries = await fs.readdir(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name);
-
-    if (entry.isDirectory()) {
-      const nested = await findFirstExecutable(fullPath);
-      if (nested) {
-        return nested;
-      }
-    } else if (entry.isFile() && fullPath.toLowerCase().endsWith('.exe')) {
-      return fullPath;
-    }
-  }
-
-  return undefined;
-};
-
 const extractAndLocate = async (
-  zipPath: string,
+  archivePath: string,
   expectedExecutable?: string,
-  options?: { gameId?: string },
+  options?: {
+    gameId?: string;
+    /** Used to rank executables when `expectedExecutable` does not match anything. */
+    gameTitle?: string;
+    libraryRoot?: string;
+    formatHint?: ArchiveFormat;
+    controller?: AbortController;
+    onProgress?: (progress: ExtractionProgress & { eta?: number }) => void;
+  },
 ) => {
-  const baseName = path.basename(zipPath, path.extname(zipPath));
-  const targetDir = ensureUniqueDirectory(DOWNLOAD_DIR, baseName);
+  const format = await resolveArchiveFormat(archivePath, options?.formatHint);
+  const extractor = findArchiveExtractor(format);
+
+  if (!extractor) {
+    throw new Error(`Não há extrator disponível para arquivos ${format}.`);
+  }
+
+  const baseName = stripArchiveExtension(path.basename(archivePath));
+  const libraryRoot = options?.libraryRoot ?? path.dirname(archivePath);
+  const targetDir = ensureUniqueDirectory(libraryRoot, baseName);
+  const controller = options?.controller ?? new AbortController();
 
+  // Registered before listing: a compressed tarball is decompressed once just to be listed.
   if (options?.gameId) {
-    activeExtractions.set(options.gameId, { zipPath, targetDir });
+    activeExtractions.set(options.gameId, { archivePath, targetDir, controller });
   }
 
   try {
-    await extractZip(zipPath, { dir: targetDir });
+    const uncompressedSize = await extractor.measure(archivePath, format, controller.signal);
+    const { size: packedSize } = await fs.stat(archivePath);
+    assertSafeCompressionRatio(packedSize, uncompressedSize);
+    await ensureFreeSpace(libraryRoot, uncompressedSize, 'a extração');
 
-    const executablePath = await findExecutable(targetDir, expectedExecutable);
+    const startedAt = Date.now();
+    let lastProgressAt = 0;
+    const output = watchExtractedBytes(targetDir, packedSize, uncompressedSize, controller);
 
-    if (!executablePath) {
-      throw new Error('Nenhum arquivo executável (.exe) foi encontrado após a extração.');
+    try {
+      await extractor.extract(archivePath, targetDir, format, {
+        signal: controller.signal,
+        bytesTotal: uncompressedSize,
+        onProgress: (progress) => {
+          const now = Date.now();
+          if (!options?.onProgress || now - lastProgressAt < EXTRACTION_PROGRESS_INTERVAL_MS) {
+            return;
+          }
+          lastProgressAt = now;
+          options.onProgress({
+            ...progress,
+            eta: estimateRemainingSeconds(startedAt, progress.bytesProcessed, progress.bytesTotal),
+          });
+        },
+      });
+    } catch (error) {
+      // An abort caused by oversized output is reported as such, not as a cancellation.
+      await output.finish(false);
+      throw error;
+    }
+
+    await output.finish(true);
+    await assertNoEscapingLinks(targetDir);
+
+    const { executablePath, candidates } = await locateExecutable(
+      targetDir,
+      expectedExecutable,
+      options?.gameTitle,
+    );
+
+    if (!executablePath && candidates.length === 0) {
+      throw new Error('Nenhum arquivo executável foi encontrado após a extração.');
     }
 
-    return { installDirectory: targetDir, executablePath };
+    return { installDirectory: targetDir, executablePath, candidates };
   } catch (error) {
     await fs.rm(targetDir, { recursive: true, force: true }).catch(() => undefined);
     throw error;
@@ -409,9 +917,10 @@ const extractAndLocate = async (
   }
 };
 
-const createWindow = () => {
+const createWindow = ({ hidden = false } = {}) => {
   // Create the browser window.
   const windowOptions: BrowserWindowConstructorOptions = {
+    show: !hidden,
     width: 1280,
     height: 780,
     minWidth: 1080,
@@ -429,6 +938,13 @@ const createWindow = () => {
   };
 
   mainWindow = new BrowserWindow(windowOptions);
+  rendererReady = false;
+  cliRendererReady = false;
+
+  mainWindow.webContents.on('did-start-loading', () => {
+    rendererReady = false;
+    cliRendererReady = false;
+  });
 
   // and load the index.html of the app.
   if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
@@ -439,7 +955,7 @@ const createWindow = () => {
     );
   }
 
-  if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+  if (MAIN_WINDOW_VITE_DEV_SERVER_URL && !hidden) {
     mainWindow.webContents.openDevTools({ mode: 'detach' });
   }
 
@@ -448,10 +964,159 @@ const createWindow = () => {
   });
 };
 
+const focusMainWindow = () => {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+
+  // Once the user sees the window, finishing a CLI command must not close it.
+  headlessCliRequests.clear();
+  headlessCliFailed = false;
+  mainWindow.show();
+  mainWindow.focus();
+};
+
+const handleDeepLink = (url: string | undefined) => {
+  const link = url ? parseDeepLink(url) : null;
+
+  if (!link) {
+    return;
+  }
+
+  if (mainWindow && rendererReady) {
+    mainWindow.webContents.send('app:deep-link', link);
+  } else {
+    pendingDeepLink = link;
+  }
+};
+
+const handleCliCommand = (command: CliCommand, headless: boolean, replyAddress?: string) => {
+  const request: CliRequest = { id: randomUUID(), command, headless };
+
+  if (headless) {
+    headlessCliRequests.add(request.id);
+  }
+
+  if (replyAddress) {
+    cliReplyChannels.set(request.id, openCliReplyChannel(replyAddress));
+  }
+
+  if (mainWindow && cliRendererReady) {
+    mainWindow.webContents.send('cli:command', request);
+  } else {
+    pendingCliRequests.push(request);
+  }
+};
+
 // This method will be called when Electron has finished
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
-app.on('ready', createWindow);
+app.on('ready', () => {
+  if (!hasInstanceLock) {
+    return;
+  }
+
+  registerDeepLinkProtocol();
+
+  if (startupCliCommand) {
+    handleCliCommand(startupCliCommand, true);
+    createWindow({ hidden: true });
+    return;
+  }
+
+  handleDeepLink(findDeepLinkArg(process.argv));
+  createWindow();
+});
+
+app.on('second-instance', (_event, argv, _workingDirectory, additionalData) => {
+  let command: CliCommand | null = null;
+
+  try {
+    command = parseCliArgs(argv);
+  } catch {
+    // The second process already printed the usage error.
+    return;
+  }
+
+  if (command) {
+    // Scripts should not pull the window to the front; without a visible one the command runs headless.
+    const headless = !mainWindow?.isVisible();
+
+    if (!mainWindow) {
+      createWindow({ hidden: true });
+    }
+
+    const replyAddress = (additionalData as { cliReplyAddress?: unknown } | undefined)?.cliReplyAddress;
+    handleCliCommand(command, headless, isCliReplyAddress(replyAddress) ? replyAddress : undefined);
+    return;
+  }
+
+  handleDeepLink(findDeepLinkArg(argv));
+  focusMainWindow();
+});
+
+// macOS delivers links through this event instead of argv, possibly before `ready`.
+app.on('open-url', (event, url) => {
+  event.preventDefault();
+  handleDeepLink(url);
+
+  if (app.isReady()) {
+    focusMainWindow();
+  }
+});
+
+ipcMain.handle('app:deep-link-ready', (event) => {
+  if (event.sender !== mainWindow?.webContents) {
+    return null;
+  }
+
+  rendererReady = true;
+  const link = pendingDeepLink;
+  pendingDeepLink = null;
+  return link;
+});
+
+ipcMain.handle('cli:ready', (event) => {
+  if (event.sender !== mainWindow?.webContents) {
+    return [];
+  }
+
+  cliRendererReady = true;
+  const requests = pendingCliRequests;
+  pendingCliRequests = [];
+  return requests;
+});
+
+ipcMain.handle('cli:result', async (_event, requestId: string, result: CliResult) => {
+  const channel = cliReplyChannels.get(requestId);
+
+  if (channel) {
+    channel.send(result);
+  } else {
+    printCliResult(result);
+  }
+});
+
+ipcMain.handle('cli:finished', async (_event, requestId: string, success: boolean) => {
+  cliReplyChannels.get(requestId)?.finish(success);
+  cliReplyChannels.delete(requestId);
+
+  if (!headlessCliRequests.delete(requestId)) {
+    return;
+  }
+
+  headlessCliFailed = headlessCliFailed || !success;
+
+  if (headlessCliRequests.size === 0 && !mainWindow?.isVisible()) {
+    cliExitCode = headlessCliFailed ? 1 : 0;
+    app.quit();
+  }
+});
 
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
@@ -474,21 +1139,81 @@ app.on('activate', () => {
 // In this file you can include the rest of your app's specific main process
 // code. You can also put them in separate files and import them here.
 
-ipcMain.handle('game:launch', async (_event, executablePath: string) => {
-  const validation = await validateExecutablePath(executablePath);
+ipcMain.handle('game:launch', async (event, payload: GameLaunchPayload) => {
+  const validation = await validateExecutablePath(payload?.executablePath);
 
   if (!validation.success) {
     return validation;
   }
 
+  const gameId = payload.gameId ?? validation.filePath;
+
+  if (isGameRunning(gameId) || launchingGames.has(gameId)) {
+    return { success: false, message: 'O jogo já está em execução.' };
+  }
+
+  const options = normalizeLaunchOptions(payload);
+  const hooks = normalizeGameHooks(payload.hooks);
+  const hookContext = {
+    gameId,
+    executablePath: validation.filePath,
+    cwd: path.resolve(path.dirname(validation.filePath), options.cwd ?? '.'),
+    env: options.env,
+  };
+  let hookWarning: string | undefined;
+
+  launchingGames.add(gameId);
+
   try {
-    const result = await shell.openPath(validation.filePath);
+    if (hooks.preLaunch) {
+      const result = await runHook('preLaunch', hooks.preLaunch, hookContext);
+
+      if (!result.success && hooks.preLaunch.abortOnFailure) {
+        return { success: false, message: `${result.message} O jogo não foi iniciado.`, logPath: result.logPath };
+      }
 
-    if (result) {
-      return { success: false, message: result };
+      hookWarning = result.success ? undefined : result.message;
     }
 
-    return { success: true };
+    const child = await launchExecutable(
+      validation.filePath,
+      normalizeGameRunner(payload.runner),
+      gameId,
+      options,
+    );
+
+    if (!child) {
+      return { success: true, tracked: false, hookWarning };
+    }
+
+    const { sender } = event;
+    const { postExit } = hooks;
+    const session = trackGameProcess(gameId, child, async (exit) => {
+      if (!sender.isDestroyed()) {
+        sender.send('game:exited', exit);
+      }
+
+      if (!postExit) {
+        return;
+      }
+
+      const result = await runHook('postExit', postExit, {
+        ...hookContext,
+        env: { ...hookContext.env, LAUNCHER_EXIT_CODE: String(exit.exitCode ?? '') },
+      });
+
+      if (!result.success && !sender.isDestroyed()) {
+        sender.send('game:hook-failed', {
+          gameId,
+          phase: 'postExit',
+          message: result.message,
+          logPath: result.logPath,
+        });
+      }
+    });
+
+    sender.send('game:started', session);
+    return { success: true, tracked: true, startedAt: session.startedAt, hookWarning };
   } catch (error) {
     const message =
       error instanceof Error ? error.message : 'Erro inesperado ao abrir o jogo.';
@@ -497,7 +1222,24 @@ ipcMain.handle('game:launch', async (_event, executablePath: string) => {
       success: false,
       message,
     };
+  } finally {
+    launchingGames.delete(gameId);
+  }
+});
+
+ipcMain.handle('game:open-hook-log', async (_event, gameId: string) => {
+  if (!gameId || typeof gameId !== 'string') {
+    return { success: false, message: 'Jogo inválido.' };
   }
+
+  const logPath = getHookLogPath(gameId);
+
+  if (!existsSync(logPath)) {
+    return { success: false, message: 'Nenhum script foi executado para este jogo ainda.' };
+  }
+
+  const result = await shell.openPath(logPath);
+  return result ? { success: false, message: result } : { success: true };
 });
 
 ipcMain.handle('dialog:select-executable', async () => {
@@ -507,7 +1249,10 @@ ipcMain.handle('dialog:select-executable', async () => {
     title: 'Selecionar arquivo executável',
     properties: ['openFile'],
     filters: [
-      { name: 'Executáveis', extensions: ['exe'] },
+      {
+        name: 'Executáveis',
+        extensions: process.platform === 'win32' ? ['exe'] : ['exe', 'sh', 'AppImage', 'x86_64', 'x86'],
+      },
       { name: 'Todos os arquivos', extensions: ['*'] },
     ],
   });
@@ -519,11 +1264,102 @@ ipcMain.handle('dialog:select-executable', async () => {
   return { canceled: false, filePath: result.filePaths[0] };
 });
 
-ipcMain.handle('game:validate-executable', async (_event, filePath: string) =>
-  validateExecutablePath(filePath),
-);
+ipcMain.handle('game:list-running', async () => listRunningGames());
 
-ipcMain.handle('app:open-external', async (_event, url: string) => {
+ipcMain.handle('runners:list', async () => listRunners());
+
+ipcMain.handle('dialog:select-runner', async () => {
+  const win = BrowserWindow.getFocusedWindow() ?? mainWindow;
+  const options: Electron.OpenDialogOptions = {
+    title: 'Selecionar binário do Wine ou script do Proton',
+    properties: ['openFile', 'showHiddenFiles'],
+  };
+
+  const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { canceled: true };
+  }
+
+  return { canceled: false, filePath: result.filePaths[0] };
+});
+
+ipcMain.handle('dialog:select-prefix', async () => {
+  const win = BrowserWindow.getFocusedWindow() ?? mainWindow;
+  const options: Electron.OpenDialogOptions = {
+    title: 'Selecionar pasta do prefixo',
+    properties: ['openDirectory', 'createDirectory', 'showHiddenFiles'],
+  };
+
+  const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { canceled: true };
+  }
+
+  return { canceled: false, folderPath: result.filePaths[0] };
+});
+
+type ShortcutPayload = {
+  gameId: string;
+  title: string;
+  executablePath: string;
+  target?: ShortcutTarget;
+  locations?: ShortcutLocation[];
+};
+
+ipcMain.handle('shortcuts:create', async (_event, payload: ShortcutPayload) => {
+  if (!payload?.gameId || !payload.title) {
+    return { success: false, message: 'Jogo inválido.' };
+  }
+
+  // Without explicit locations this is the install step, driven by the settings.
+  const locations = Array.isArray(payload.locations) ? payload.locations : getSettings().installShortcuts;
+
+  if (locations.length === 0) {
+    return { success: true, paths: [] };
+  }
+
+  const validation = await validateExecutablePath(payload.executablePath);
+
+  if (!validation.success) {
+    return validation;
+  }
+
+  try {
+    const paths = await createGameShortcuts({
+      gameId: payload.gameId,
+      title: payload.title,
+      executablePath: validation.filePath,
+      target: payload.target === 'executable' ? 'executable' : 'launcher',
+      locations: locations.filter((location) => location === 'desktop' || location === 'startMenu'),
+    });
+    return { success: true, paths };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Não foi possível criar os atalhos.',
+    };
+  }
+});
+
+ipcMain.handle('shortcuts:remove', async (_event, paths: string[]) => {
+  try {
+    await removeGameShortcuts(Array.isArray(paths) ? paths : []);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Não foi possível remover os atalhos.',
+    };
+  }
+});
+
+ipcMain.handle('game:validate-executable', async (_event, filePath: string) =>
+  validateExecutablePath(filePath),
+);
+
+ipcMain.handle('app:open-external', async (_event, url: string) => {
   if (!url || typeof url !== 'string') {
     return { success: false, message: 'URL inválida.' };
   }
@@ -542,74 +1378,300 @@ ipcMain.handle('app:open-external', async (_event, url: string) => {
 
 const downloadControllers = new Map<string, AbortController>();
 const downloadTargets = new Map<string, string>();
-const abortReasons = new Map<string, 'cancelled'>();
-const activeExtractions = new Map<string, { zipPath: string; targetDir: string }>();
+const abortReasons = new Map<string, 'cancelled' | 'interrupted' | 'paused'>();
+const activeExtractions = new Map<
+  string,
+  { archivePath: string; targetDir: string; controller: AbortController }
+>();
+const EXTRACTION_PROGRESS_INTERVAL_MS = 250;
 
 const cleanupActiveExtractions = async () => {
-  const cleanups = Array.from(activeExtractions.values()).map((entry) =>
-    fs.rm(entry.targetDir, { recursive: true, force: true }).catch(() => undefined),
-  );
+  const cleanups = Array.from(activeExtractions.values()).map((entry) => {
+    entry.controller.abort();
+    return fs.rm(entry.targetDir, { recursive: true, force: true }).catch(() => undefined);
+  });
   await Promise.all(cleanups);
   activeExtractions.clear();
 };
 
-ipcMain.handle(
-  'store:start-download',
-  async (
-    event,
-    payload: { gameId: string; url: string; fileName: string; expectedExecutable?: string },
-  ) => {
-    const sender = event.sender;
+const sendExtractionProgress = (
+  sender: WebContents,
+  gameId: string,
+  filePath: string,
+  progress: ExtractionProgress & { eta?: number },
+) => {
+  if (sender.isDestroyed()) {
+    return;
+  }
 
-    const safeGameId = payload.gameId;
+  sender.send('store:download-progress', {
+    gameId,
+    state: 'extracting',
+    filePath,
+    received: progress.bytesProcessed,
+    total: progress.bytesTotal,
+    entriesProcessed: progress.entriesProcessed,
+    entriesTotal: progress.entriesTotal,
+    eta: progress.eta,
+  });
+};
 
-    let targetPath = '';
+type StoreDownloadPayload = {
+  gameId: string;
+  url: string;
+  fileName: string;
+  /** Catalog title, used to rank executables when `expectedExecutable` is missing or wrong. */
+  title?: string;
+  expectedExecutable?: string;
+  sha256?: string;
+  sizeBytes?: number;
+  /** Fallback sources tried in order after `url`. */
+  mirrors?: string[];
+  /** Library folder chosen by the user; falls back to the default one. */
+  libraryFolder?: string;
+  /** Catalog hint used when the archive has no recognizable signature. */
+  archiveFormat?: ArchiveFormat;
+  /** Ordered parts of a split archive, each with its own size and hash; `url` then only identifies the download. */
+  parts?: DownloadPart[];
+};
 
-    try {
-      ensureDownloadDir();
+const verifyDownloadedFile = async (
+  filePath: string,
+  expected: { sha256?: string; sizeBytes?: number },
+  streamedSha256: string | undefined,
+  onProgress: (processed: number, total: number) => void,
+  signal: AbortSignal,
+) => {
+  const { size } = await fs.stat(filePath);
+  onProgress(0, size);
 
-      if (downloadControllers.has(safeGameId)) {
-        downloadControllers.get(safeGameId)?.abort();
-        downloadControllers.delete(safeGameId);
-      }
+  if (expected.sizeBytes && size !== expected.sizeBytes) {
+    throw createChecksumError(
+      `O arquivo baixado tem ${size} bytes, mas o catálogo informa ${expected.sizeBytes}. Tente baixar novamente.`,
+    );
+  }
 
-      sender.send('store:download-progress', {
-        gameId: safeGameId,
-        state: 'queued',
-      });
+  if (!expected.sha256) {
+    return;
+  }
+
+  const digest =
+    streamedSha256 ?? (await hashFile(filePath, (processed) => onProgress(processed, size), signal));
+
+  if (digest !== expected.sha256) {
+    throw createChecksumError(
+      'O arquivo baixado está corrompido (SHA-256 não confere). Tente baixar novamente.',
+    );
+  }
+
+  onProgress(size, size);
+};
+
+const runStoreDownload = async (sender: WebContents, payload: StoreDownloadPayload) => {
+  const safeGameId = payload.gameId;
+
+  let targetPath = '';
+  let lastReceived = 0;
+  let lastTotal: number | undefined;
+  let chunkRetries = 0;
+
+  try {
+    const libraryRoot = resolveLibraryFolder(payload.libraryFolder);
+    const archiveFormat = normalizeArchiveFormat(payload.archiveFormat);
+    const catalogParts = normalizeDownloadParts(payload.parts);
+    const isMultipart = catalogParts.length > 1;
+    const parts: DownloadPart[] = isMultipart
+      ? catalogParts
+      : [{ url: payload.url, sizeBytes: payload.sizeBytes, sha256: payload.sha256 }];
+    ensureLibraryFolder(libraryRoot);
+
+    if (downloadControllers.has(safeGameId)) {
+      downloadControllers.get(safeGameId)?.abort();
+      downloadControllers.delete(safeGameId);
+    }
+
+    sender.send('store:download-progress', {
+      gameId: safeGameId,
+      state: 'queued',
+    });
 
-      const resolvedUrl = await resolveDownloadUrl(payload.url);
+    const resumable = await findResumableDownload(safeGameId);
+    let archivePath = '';
+
+    if (
+      resumable &&
+      resumable.manifest.sourceUrl === payload.url &&
+      isPartPath(resumable.targetPath) === isMultipart
+    ) {
+      archivePath = isMultipart ? getArchivePathFromPart(resumable.targetPath) : resumable.targetPath;
+    } else {
+      if (resumable) {
+        await removeDownloadArtifacts(resumable.targetPath);
+      }
 
       const sanitized = sanitizeFileName(payload.fileName);
-      const finalName = ensureZipExtension(sanitized);
+      const finalName = ensureArchiveExtension(sanitized, archiveFormat);
+      const base = stripArchiveExtension(finalName);
+      const extension = finalName.slice(base.length);
+      const isTaken = (candidate: string) =>
+        existsSync(candidate) || (isMultipart && existsSync(getPartPath(candidate, 0)));
 
-      targetPath = path.join(DOWNLOAD_DIR, finalName);
+      archivePath = path.join(libraryRoot, finalName);
       let counter = 1;
-      while (existsSync(targetPath)) {
-        const suffix = `(${counter})`;
-        const base = finalName.replace(/\.zip$/i, '');
-        targetPath = path.join(DOWNLOAD_DIR, `${base}${suffix}.zip`);
+      while (isTaken(archivePath)) {
+        archivePath = path.join(libraryRoot, `${base}(${counter})${extension}`);
         counter += 1;
       }
+    }
 
-      const controller = new AbortController();
-      downloadControllers.set(safeGameId, controller);
+    const partPaths = parts.map((_part, index) => (isMultipart ? getPartPath(archivePath, index) : archivePath));
+    targetPath = partPaths[0];
+
+    const controller = new AbortController();
+    downloadControllers.set(safeGameId, controller);
+    downloadTargets.set(safeGameId, targetPath);
+    abortReasons.delete(safeGameId);
+
+    const throttle = createDownloadThrottle(safeGameId, controller.signal);
+    const declaredTotal = parts.every((part) => part.sizeBytes)
+      ? parts.reduce((sum, part) => sum + (part.sizeBytes ?? 0), 0)
+      : undefined;
+    // The archive is the smallest the install can be; the real size is only known once it can be listed.
+    const extractionEstimate = declaredTotal ?? (isMultipart ? undefined : payload.sizeBytes);
+    // Bytes of the parts already on disk; progress is reported for the download as a whole.
+    let completedBytes = 0;
+
+    for (const [partIndex, part] of parts.entries()) {
+      targetPath = partPaths[partIndex];
       downloadTargets.set(safeGameId, targetPath);
-      abortReasons.delete(safeGameId);
 
-      await downloadFile(
-        resolvedUrl,
-        targetPath,
-        (received, total) => {
+      const partInfo = isMultipart ? { part: partIndex + 1, partCount: parts.length } : {};
+      const checkpoint: DownloadCheckpoint = {
+        manifestPath: getManifestPath(targetPath),
+        metadata: {
+          gameId: safeGameId,
+          sourceUrl: payload.url,
+          fileName: payload.fileName,
+          title: payload.title,
+          expectedExecutable: payload.expectedExecutable,
+          sha256: payload.sha256,
+          sizeBytes: payload.sizeBytes,
+          mirrors: payload.mirrors,
+          archiveFormat,
+          parts: isMultipart ? parts : undefined,
+        },
+      };
+
+      if (isMultipart) {
+        const previous = await readDownloadManifest(checkpoint.manifestPath);
+        const existingSize = await fs
+          .stat(targetPath)
+          .then((stats) => stats.size)
+          .catch(() => -1);
+
+        if (previous?.partCompleted && existingSize === previous.totalBytes) {
+          completedBytes += existingSize;
+          continue;
+        }
+      }
+
+      const toOverallTotal = (partTotal?: number) => {
+        if (!isMultipart) {
+          return partTotal;
+        }
+        if (declaredTotal) {
+          return declaredTotal;
+        }
+        // Without declared sizes the total is only known once the last part starts.
+        return partIndex === parts.length - 1 && partTotal ? completedBytes + partTotal : undefined;
+      };
+
+      const sources = buildSourceList(part.url, isMultipart ? undefined : payload.mirrors);
+      let downloadResult: { sha256?: string } | undefined;
+
+      for (let sourceIndex = 0; sourceIndex < sources.length && !downloadResult; sourceIndex += 1) {
+        const mirrorUrl = sources[sourceIndex];
+        const hasFallback = sourceIndex < sources.length - 1;
+        const attemptController = new AbortController();
+        const forwardAbort = () => attemptController.abort();
+        controller.signal.addEventListener('abort', forwardAbort);
+
+        const { minMirrorSpeed } = getSettings();
+        const speedMonitor =
+          hasFallback && minMirrorSpeed > 0
+            ? createSpeedMonitor({
+                minBytesPerSecond: minMirrorSpeed,
+                onSlow: (speed) => {
+                  // A bandwidth cap makes every mirror look slow, so only switch when uncapped.
+                  if (getGlobalBandwidthLimit() > 0 || downloadRateLimits.has(safeGameId)) {
+                    return;
+                  }
+
+                  console.warn(`Espelho lento (${Math.round(speed)} B/s), trocando de fonte: ${mirrorUrl}`);
+                  attemptController.abort();
+                },
+              })
+            : undefined;
+
+        const sendProgress = (received: number, total?: number) => {
           sender.send('store:download-progress', {
             gameId: safeGameId,
             state: 'downloading',
+            filePath: targetPath,
             received,
             total,
+            retries: chunkRetries,
+            mirrorUrl,
+            mirrorIndex: sourceIndex,
+            ...partInfo,
           });
-        },
-        controller.signal,
-      );
+        };
+
+        try {
+          const resolved = await resolveDownload(mirrorUrl);
+
+          downloadResult = await downloadFile(
+            resolved.url,
+            targetPath,
+            (received, total) => {
+              lastReceived = completedBytes + received;
+              lastTotal = toOverallTotal(total);
+              speedMonitor?.record(received);
+              sendProgress(lastReceived, lastTotal);
+            },
+            attemptController.signal,
+            checkpoint,
+            {
+              throttle,
+              headers: resolved.headers,
+              reserveBytes:
+                extractionEstimate === undefined
+                  ? undefined
+                  : extractionEstimate +
+                    parts.slice(partIndex + 1).reduce((sum, later) => sum + (later.sizeBytes ?? 0), 0),
+              onChunkRetry: (retries) => {
+                chunkRetries = retries;
+                sendProgress(lastReceived, lastTotal);
+              },
+            },
+          );
+        } catch (error) {
+          const isSpaceError = error instanceof Error && error.name === 'InsufficientSpaceError';
+
+          if (controller.signal.aborted || !hasFallback || isSpaceError) {
+            throw error;
+          }
+
+          console.warn(`Falha no espelho ${sourceIndex + 1}, tentando o próximo`, error);
+        } finally {
+          speedMonitor?.stop();
+          controller.signal.removeEventListener('abort', forwardAbort);
+        }
+      }
+
+      if (!downloadResult) {
+        throw new Error('Nenhuma fonte de download disponível.');
+      }
 
       if (controller.signal.aborted) {
         const cancellationError = new Error('');
@@ -617,82 +1679,383 @@ ipcMain.handle(
         throw cancellationError;
       }
 
-      const zipStats = await fs.stat(targetPath);
+      const expectedSha256 = normalizeSha256(part.sha256);
+      const expectedSize =
+        typeof part.sizeBytes === 'number' && part.sizeBytes > 0 ? part.sizeBytes : undefined;
+
+      if (expectedSha256 || expectedSize) {
+        try {
+          await verifyDownloadedFile(
+            targetPath,
+            { sha256: expectedSha256, sizeBytes: expectedSize },
+            downloadResult.sha256,
+            (processed, total) => {
+              sender.send('store:download-progress', {
+                gameId: safeGameId,
+                state: 'verifying',
+                filePath: targetPath,
+                received: processed,
+                total,
+                ...partInfo,
+              });
+            },
+            controller.signal,
+          );
+        } catch (error) {
+          if (error instanceof Error && error.name === 'ChecksumMismatchError') {
+            // A corrupted archive must not be offered for resume.
+            await fs.unlink(getManifestPath(targetPath)).catch(() => undefined);
+          }
+          throw error;
+        }
+      }
 
-      sender.send('store:download-progress', {
-        gameId: safeGameId,
-        state: 'extracting',
-        filePath: targetPath,
-        received: zipStats.size,
-        total: zipStats.size,
-      });
+      const { size: partSize } = await fs.stat(targetPath);
+      completedBytes += partSize;
+
+      if (isMultipart) {
+        // Finished parts keep a manifest so a resumed download skips them.
+        await writeDownloadManifest(checkpoint.manifestPath, {
+          version: 1,
+          ...checkpoint.metadata,
+          totalBytes: partSize,
+          chunkSize: RANGE_CHUNK_SIZE,
+          completedChunks: [],
+          partCompleted: true,
+          updatedAt: new Date().toISOString(),
+        });
+      } else {
+        await fs.unlink(getManifestPath(targetPath)).catch(() => undefined);
+      }
+    }
 
-      const { installDirectory, executablePath } = await extractAndLocate(
-        targetPath,
-        payload.expectedExecutable,
-        { gameId: safeGameId },
+    downloadRateLimiters.delete(safeGameId);
+    downloadRateLimits.delete(safeGameId);
+
+    const archiveSize = completedBytes;
+
+    sender.send('store:download-progress', {
+      gameId: safeGameId,
+      state: 'extracting',
+      filePath: archivePath,
+      totalBytes: archiveSize,
+    });
+
+    if (isMultipart) {
+      targetPath = await assembleParts(partPaths, archivePath, controller.signal);
+      downloadTargets.set(safeGameId, targetPath);
+      await Promise.all(
+        partPaths.map((partPath) => fs.unlink(getManifestPath(partPath)).catch(() => undefined)),
       );
+    }
 
-      await fs.unlink(targetPath).catch(() => undefined);
+    let extraction: Awaited<ReturnType<typeof extractAndLocate>>;
 
+    try {
+      extraction = await extractAndLocate(targetPath, payload.expectedExecutable, {
+        gameId: safeGameId,
+        gameTitle: payload.title ?? payload.fileName,
+        libraryRoot: path.dirname(targetPath),
+        formatHint: archiveFormat,
+        controller,
+        onProgress: (progress) => sendExtractionProgress(sender, safeGameId, targetPath, progress),
+      });
+    } catch (error) {
+      const interrupted = abortReasons.get(safeGameId) === 'interrupted';
+      const isSpaceError = error instanceof Error && error.name === 'InsufficientSpaceError';
+
+      if (!isSpaceError && !interrupted) {
+        throw error;
+      }
+
+      // Keep the archive so the user can free some space (or reopen the app) and extract it later.
+      const message = isSpaceError ? (error as Error).message : 'A extração foi interrompida.';
       downloadControllers.delete(safeGameId);
       downloadTargets.delete(safeGameId);
       abortReasons.delete(safeGameId);
 
+      if (!sender.isDestroyed()) {
+        sender.send('store:download-progress', {
+          gameId: safeGameId,
+          state: 'awaitingExtraction',
+          filePath: targetPath,
+          totalBytes: archiveSize,
+          requestedAt: new Date().toISOString(),
+          message,
+        });
+      }
+
+      return { success: false, state: 'awaitingExtraction', message };
+    }
+
+    const { installDirectory, executablePath, candidates } = extraction;
+
+    await removeArchiveFiles(targetPath);
+
+    downloadControllers.delete(safeGameId);
+    downloadTargets.delete(safeGameId);
+    abortReasons.delete(safeGameId);
+
+    if (!executablePath) {
+      // Installed, but the ranking was not sure enough; the user picks from the candidates.
       sender.send('store:download-progress', {
         gameId: safeGameId,
-        state: 'ready',
+        state: 'awaitingExecutableChoice',
         filePath: targetPath,
-        totalBytes: zipStats.size,
+        totalBytes: archiveSize,
         completedAt: new Date().toISOString(),
         installDirectory,
-        executablePath,
+        candidates,
       });
 
-      return { success: true };
-    } catch (error) {
-      downloadControllers.delete(safeGameId);
-      const reason = abortReasons.get(safeGameId);
-      abortReasons.delete(safeGameId);
-      const trackedTarget = downloadTargets.get(safeGameId) ?? targetPath;
-      downloadTargets.delete(safeGameId);
-      if (trackedTarget) {
-        await fs.unlink(trackedTarget).catch(() => undefined);
-      }
-      const activeExtraction = activeExtractions.get(safeGameId);
-      if (activeExtraction) {
-        await fs.rm(activeExtraction.targetDir, { recursive: true, force: true }).catch(() => undefined);
-        activeExtractions.delete(safeGameId);
+      return { success: true, state: 'awaitingExecutableChoice' };
+    }
+
+    sender.send('store:download-progress', {
+      gameId: safeGameId,
+      state: 'ready',
+      filePath: targetPath,
+      totalBytes: archiveSize,
+      completedAt: new Date().toISOString(),
+      installDirectory,
+      executablePath,
+    });
+
+    return { success: true };
+  } catch (error) {
+    downloadControllers.delete(safeGameId);
+    downloadRateLimiters.delete(safeGameId);
+    const reason = abortReasons.get(safeGameId);
+    abortReasons.delete(safeGameId);
+    const trackedTarget = downloadTargets.get(safeGameId) ?? targetPath;
+    downloadTargets.delete(safeGameId);
+    const activeExtraction = activeExtractions.get(safeGameId);
+    if (activeExtraction) {
+      await fs.rm(activeExtraction.targetDir, { recursive: true, force: true }).catch(() => undefined);
+      activeExtractions.delete(safeGameId);
+    }
+    const baseMessage =
+      error instanceof Error ? error.message : 'Falha ao baixar o arquivo informado.';
+
+    const canResume =
+      reason !== 'cancelled' && Boolean(trackedTarget) && (await hasDownloadManifest(trackedTarget));
+
+    if (canResume) {
+      const resumableState = reason === 'paused' ? 'paused' : 'interrupted';
+
+      if (!sender.isDestroyed()) {
+        sender.send('store:download-progress', {
+          gameId: safeGameId,
+          state: resumableState,
+          filePath: trackedTarget,
+          received: lastReceived,
+          total: lastTotal,
+          finishedAt: new Date().toISOString(),
+          message: reason ? undefined : baseMessage,
+        });
       }
-      const baseMessage =
-        error instanceof Error ? error.message : 'Falha ao baixar o arquivo informado.';
-      const state = reason === 'cancelled' ? 'cancelled' : 'failed';
-      const payload: {
-        gameId: string;
-        state: 'cancelled' | 'failed';
-        finishedAt: string;
-        message?: string;
-      } = {
-        gameId: safeGameId,
-        state,
-        finishedAt: new Date().toISOString(),
-      };
 
-      if (state === 'failed') {
-        payload.message = baseMessage;
+      return { success: false, state: resumableState, message: baseMessage };
+    }
+
+    if (trackedTarget) {
+      await removeDownloadArtifacts(trackedTarget);
+    }
+
+    downloadRateLimits.delete(safeGameId);
+    const state = reason === 'cancelled' ? 'cancelled' : 'failed';
+    const progressPayload: {
+      gameId: string;
+      state: 'cancelled' | 'failed';
+      finishedAt: string;
+      message?: string;
+      retryable?: boolean;
+    } = {
+      gameId: safeGameId,
+      state,
+      finishedAt: new Date().toISOString(),
+    };
+
+    if (state === 'failed') {
+      progressPayload.message = baseMessage;
+      progressPayload.retryable = error instanceof Error && error.name === 'ChecksumMismatchError';
+    }
+
+    if (!sender.isDestroyed()) {
+      sender.send('store:download-progress', progressPayload);
+    }
+
+    return {
+      success: false,
+      state,
+      message: baseMessage,
+    };
+  }
+};
+
+const downloadQueue = createDownloadQueue<{ sender: WebContents; payload: StoreDownloadPayload }>({
+  getConcurrency: () => getSettings().maxConcurrentDownloads,
+  run: (_gameId, job) => runStoreDownload(job.sender, job.payload),
+  onWaitingChanged: (waiting) => {
+    waiting.forEach(({ id, payload: job, position }) => {
+      if (!job.sender.isDestroyed()) {
+        job.sender.send('store:download-progress', {
+          gameId: id,
+          state: 'queued',
+          queuePosition: position,
+          queueLength: waiting.length,
+        });
       }
+    });
+  },
+});
 
-      sender.send('store:download-progress', payload);
+onSettingsChanged((settings, previous) => {
+  if (settings.maxConcurrentDownloads !== previous.maxConcurrentDownloads) {
+    downloadQueue.pump();
+  }
 
-      return {
-        success: false,
-        message,
-      };
+  if (
+    settings.bandwidthLimit !== previous.bandwidthLimit ||
+    JSON.stringify(settings.unlimitedSchedule) !== JSON.stringify(previous.unlimitedSchedule)
+  ) {
+    globalRateLimiter.refresh();
+  }
+});
+
+const enqueueStoreDownload = (sender: WebContents, payload: StoreDownloadPayload) => {
+  const { queued, position } = downloadQueue.enqueue(payload.gameId, { sender, payload });
+
+  if (!queued) {
+    return { success: false, state: 'queued' as const, message: 'O download já está em andamento.' };
+  }
+
+  return { success: true, queuePosition: position };
+};
+
+ipcMain.handle('store:start-download', async (event, payload: StoreDownloadPayload) =>
+  enqueueStoreDownload(event.sender, payload),
+);
+
+ipcMain.handle('store:resume-download', async (event, gameId: string) => {
+  if (downloadQueue.isRunning(gameId) || downloadQueue.isWaiting(gameId)) {
+    return { success: false, message: 'O download já está em andamento.' };
+  }
+
+  const resumable = await findResumableDownload(gameId);
+
+  if (!resumable) {
+    return { success: false, resumable: false, message: 'Nenhum download interrompido encontrado.' };
+  }
+
+  const { manifest } = resumable;
+
+  return enqueueStoreDownload(event.sender, {
+    gameId,
+    url: manifest.sourceUrl,
+    fileName: manifest.fileName,
+    title: manifest.title,
+    expectedExecutable: manifest.expectedExecutable,
+    sha256: manifest.sha256,
+    sizeBytes: manifest.sizeBytes,
+    mirrors: manifest.mirrors,
+    archiveFormat: manifest.archiveFormat,
+    parts: manifest.parts,
+  });
+});
+
+ipcMain.handle(
+  'store:move-download',
+  async (_event, payload: { gameId: string; toIndex: number }) => {
+    if (!downloadQueue.move(payload.gameId, payload.toIndex)) {
+      return { success: false, message: 'O download não está na fila.' };
     }
+
+    return { success: true };
   },
 );
 
-ipcMain.handle('store:cancel-download', async (_event, gameId: string) => {
+ipcMain.handle('store:list-download-hosts', async () => listDownloadHosts());
+
+ipcMain.handle(
+  'store:set-download-limit',
+  async (_event, payload: { gameId: string; bytesPerSecond: number }) => {
+    const limit = Number(payload?.bytesPerSecond);
+
+    if (!payload?.gameId || !Number.isFinite(limit) || limit < 0) {
+      return { success: false, message: 'Limite de velocidade inválido.' };
+    }
+
+    if (limit === 0) {
+      downloadRateLimits.delete(payload.gameId);
+    } else {
+      downloadRateLimits.set(payload.gameId, Math.round(limit));
+    }
+
+    downloadRateLimiters.get(payload.gameId)?.refresh();
+    return { success: true };
+  },
+);
+
+ipcMain.handle('store:prioritize-download', async (_event, gameId: string) => {
+  if (!downloadQueue.move(gameId, 0)) {
+    return { success: false, message: 'O download não está na fila.' };
+  }
+
+  return { success: true };
+});
+
+ipcMain.handle('store:pause-download', async (_event, gameId: string) => {
+  const controller = downloadControllers.get(gameId);
+  const targetPath = downloadTargets.get(gameId);
+
+  if (!controller || !targetPath) {
+    return { success: false, message: 'Nenhum download ativo encontrado.' };
+  }
+
+  if (activeExtractions.has(gameId)) {
+    return { success: false, message: 'A extração não pode ser pausada.' };
+  }
+
+  if (!existsSync(getManifestPath(targetPath))) {
+    return {
+      success: false,
+      message: 'Este servidor não permite retomar o download, então ele não pode ser pausado.',
+    };
+  }
+
+  abortReasons.set(gameId, 'paused');
+  controller.abort();
+  downloadControllers.delete(gameId);
+  return { success: true };
+});
+
+ipcMain.handle('store:cancel-download', async (event, gameId: string) => {
+  if (downloadQueue.remove(gameId)) {
+    const resumable = await findResumableDownload(gameId);
+    if (resumable) {
+      await removeDownloadArtifacts(resumable.targetPath);
+    }
+    event.sender.send('store:download-progress', {
+      gameId,
+      state: 'cancelled',
+      finishedAt: new Date().toISOString(),
+    });
+    return { success: true };
+  }
+
+  const extraction = activeExtractions.get(gameId);
+
+  if (extraction) {
+    // Downloads own their extraction and report the cancellation themselves.
+    if (downloadControllers.has(gameId)) {
+      abortReasons.set(gameId, 'cancelled');
+    }
+    extraction.controller.abort();
+    downloadControllers.delete(gameId);
+    return { success: true };
+  }
+
   const controller = downloadControllers.get(gameId);
 
   if (controller) {
@@ -702,33 +2065,206 @@ ipcMain.handle('store:cancel-download', async (_event, gameId: string) => {
     return { success: true };
   }
 
+  const resumable = await findResumableDownload(gameId);
+
+  if (resumable) {
+    await removeDownloadArtifacts(resumable.targetPath);
+    event.sender.send('store:download-progress', {
+      gameId,
+      state: 'cancelled',
+      finishedAt: new Date().toISOString(),
+    });
+    return { success: true };
+  }
+
   return { success: false, message: 'Nenhum download ativo encontrado.' };
 });
 
 ipcMain.handle(
   'store:resume-extraction',
   async (
-    _event,
-    payload: { gameId: string; filePath: string; expectedExecutable?: string },
+    event,
+    payload: {
+      gameId: string;
+      filePath: string;
+      expectedExecutable?: string;
+      archiveFormat?: ArchiveFormat;
+      title?: string;
+    },
   ) => {
+    if (activeExtractions.has(payload.gameId)) {
+      return { success: false, message: 'A extração deste jogo já está em andamento.' };
+    }
+
     try {
-      const { installDirectory, executablePath } = await extractAndLocate(
-        payload.filePath,
+      // The archive is deleted afterwards, so it has to be one of ours.
+      const archivePath = await resolveInsideLibrary(payload.filePath, getSettings().libraryFolders);
+      const { installDirectory, executablePath, candidates } = await extractAndLocate(
+        archivePath,
         payload.expectedExecutable,
-        { gameId: payload.gameId },
+        {
+          gameId: payload.gameId,
+          gameTitle: payload.title,
+          formatHint: normalizeArchiveFormat(payload.archiveFormat),
+          onProgress: (progress) =>
+            sendExtractionProgress(event.sender, payload.gameId, payload.filePath, progress),
+        },
       );
 
-      await fs.unlink(payload.filePath).catch(() => undefined);
+      await removeArchiveFiles(archivePath);
 
-      return { success: true, installDirectory, executablePath };
+      return { success: true, installDirectory, executablePath, candidates };
     } catch (error) {
+      const cancelled = error instanceof Error && error.name === 'AbortError';
       const message =
         error instanceof Error && error.message ? error.message : 'Falha ao extrair o arquivo informado.';
-      return { success: false, message };
+      return { success: false, cancelled, message };
     }
   },
 );
 
+ipcMain.handle('system:get-disk-space', async (_event, targetPath?: string) => {
+  try {
+    const info = await getDiskSpace(targetPath || resolveLibraryFolder());
+    return { success: true, ...info };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Não foi possível consultar o espaço em disco.',
+    };
+  }
+});
+
+ipcMain.handle('library:list-folders', async () => {
+  const { libraryFolders, defaultLibraryFolder } = getSettings();
+
+  return Promise.all(
+    libraryFolders.map(async (folder) => {
+      const space = await getDiskSpace(folder).catch(() => undefined);
+      return {
+        path: folder,
+        isDefault: folder === defaultLibraryFolder,
+        exists: existsSync(folder),
+        free: space?.free,
+        total: space?.total,
+      };
+    }),
+  );
+});
+
+// The path comes from the dialog, never from the renderer, because uninstalls delete inside it.
+ipcMain.handle('library:add-folder', async () => {
+  const win = BrowserWindow.getFocusedWindow() ?? mainWindow;
+  const options: Electron.OpenDialogOptions = {
+    title: 'Selecionar pasta da biblioteca',
+    properties: ['openDirectory', 'createDirectory'],
+  };
+
+  const result = win ? await dialog.showOpenDialog(win, options) : await dialog.showOpenDialog(options);
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  const folderPath = path.resolve(result.filePaths[0]);
+  const { libraryFolders } = getSettings();
+
+  if (libraryFolders.includes(folderPath)) {
+    return { success: false, message: 'Essa pasta já faz parte da biblioteca.' };
+  }
+
+  try {
+    await assertSafeLibraryFolder(folderPath);
+    const settings = await updateSettings({ libraryFolders: [...libraryFolders, folderPath] });
+    return { success: true, settings };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Não foi possível adicionar a pasta.',
+    };
+  }
+});
+
+ipcMain.handle('library:remove-folder', async (_event, folderPath: string) => {
+  const { libraryFolders } = getSettings();
+
+  if (typeof folderPath !== 'string' || !libraryFolders.includes(folderPath)) {
+    return { success: false, message: 'Pasta da biblioteca não encontrada.' };
+  }
+
+  if (libraryFolders.length <= 1) {
+    return { success: false, message: 'A biblioteca precisa de pelo menos uma pasta.' };
+  }
+
+  try {
+    const settings = await updateSettings({
+      libraryFolders: libraryFolders.filter((folder) => folder !== folderPath),
+    });
+    return { success: true, settings };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Não foi possível remover a pasta.',
+    };
+  }
+});
+
+ipcMain.handle('settings:get', async () => getSettings());
+
+ipcMain.handle('settings:update', async (_event, patch: Partial<LauncherSettings>) => {
+  // Library folders only change through library:add-folder and library:remove-folder.
+  const safePatch = { ...(patch ?? {}) };
+  delete safePatch.libraryFolders;
+
+  try {
+    const settings = await updateSettings(safePatch);
+    return { success: true, settings };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Falha ao salvar configurações.',
+    };
+  }
+});
+
+ipcMain.handle('library-data:load', async () => {
+  try {
+    return { success: true, data: await loadLibraryData() };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Falha ao carregar os dados da biblioteca.',
+    };
+  }
+});
+
+ipcMain.handle('library-data:save', async (_event, data: LibraryData) => {
+  if (!isLibraryData(data)) {
+    return { success: false, message: 'Dados da biblioteca inválidos.' };
+  }
+
+  try {
+    await saveLibraryData(data);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Falha ao salvar os dados da biblioteca.',
+    };
+  }
+});
+
+// Sent from `beforeunload`: queuing the data before replying lets the will-quit flush write it.
+ipcMain.on('library-data:save-sync', (event, data: LibraryData) => {
+  if (!isLibraryData(data)) {
+    event.returnValue = false;
+    return;
+  }
+
+  saveLibraryData(data).catch((error) => console.error('Falha ao salvar os dados da biblioteca', error));
+  event.returnValue = true;
+});
+
 ipcMain.handle('file:write-text', async (_event, payload: { filePath: string; data: string }) => {
   try {
     if (!payload?.filePath) {
@@ -747,13 +2283,15 @@ ipcMain.handle('file:write-text', async (_event, payload: { filePath: string; da
   }
 });
 
-ipcMain.handle('library:uninstall', async (_event, installDirectory: string) => {
+ipcMain.handle('library:uninstall', async (_event, installDirectory: string, shortcuts?: string[]) => {
   if (!installDirectory) {
     return { success: false, message: 'Diretório inválido.' };
   }
 
   try {
-    await fs.rm(installDirectory, { recursive: true, force: true });
+    const target = await resolveInsideLibrary(installDirectory, getSettings().libraryFolders);
+    await fs.rm(target, { recursive: true, force: true });
+    await removeGameShortcuts(Array.isArray(shortcuts) ? shortcuts : []);
     return { success: true };
   } catch (error) {
     return {
@@ -766,9 +2304,186 @@ ipcMain.handle('library:uninstall', async (_event, installDirectory: string) =>
   }
 });
 
+type MoveInstallationPayload = {
+  gameId: string;
+  installDirectory: string;
+  executablePath?: string;
+  targetFolder: string;
+  /** Shortcuts written for the game; they are pointed at the new folder after the move. */
+  title?: string;
+  shortcuts?: string[];
+};
+
+const moveControllers = new Map<string, AbortController>();
+const MOVE_PROGRESS_INTERVAL_MS = 200;
+
+ipcMain.handle('library:move-installation', async (event, payload: MoveInstallationPayload) => {
+  const { gameId } = payload ?? {};
+
+  if (!gameId || !payload.installDirectory || !payload.targetFolder) {
+    return { success: false, message: 'Dados inválidos para mover o jogo.' };
+  }
+
+  if (moveControllers.has(gameId)) {
+    return { success: false, message: 'Este jogo já está sendo movido.' };
+  }
+
+  // Copying and then deleting the folder under a running game would corrupt both copies.
+  if (isGameRunning(gameId) || launchingGames.has(gameId)) {
+    return { success: false, message: 'Feche o jogo antes de movê-lo.' };
+  }
+
+  let sourceDir: string;
+
+  try {
+    sourceDir = await resolveInsideLibrary(payload.installDirectory, getSettings().libraryFolders);
+  } catch (error) {
+    return { success: false, message: (error as Error).message };
+  }
+
+  const targetFolder = path.resolve(payload.targetFolder);
+
+  if (!getSettings().libraryFolders.includes(targetFolder)) {
+    return { success: false, message: 'A pasta de destino não faz parte da biblioteca.' };
+  }
+
+  if (!existsSync(sourceDir)) {
+    return { success: false, message: 'A pasta de instalação não foi encontrada.' };
+  }
+
+  if (path.dirname(sourceDir) === targetFolder || isSameOrInside(sourceDir, targetFolder)) {
+    return { success: false, message: 'O jogo já está nesta pasta.' };
+  }
+
+  const controller = new AbortController();
+  moveControllers.set(gameId, controller);
+
+  const sendProgress = (data: Record<string, unknown>) => {
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('library:move-progress', { gameId, ...data });
+    }
+  };
+
+  let targetDir: string | undefined;
+  let lastProgressAt = 0;
+
+  try {
+    const entries = await listInstallationEntries(sourceDir);
+    const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    await ensureFreeSpace(targetFolder, total, 'mover o jogo');
+    ensureLibraryFolder(targetFolder);
+    targetDir = ensureUniqueDirectory(targetFolder, path.basename(sourceDir));
+
+    sendProgress({ state: 'copying', processed: 0, total });
+
+    await copyInstallation(entries, sourceDir, targetDir, {
+      signal: controller.signal,
+      onProgress: ({ phase, processed, total: totalBytes }) => {
+        const now = Date.now();
+        if (now - lastProgressAt < MOVE_PROGRESS_INTERVAL_MS && processed < totalBytes) {
+          return;
+        }
+        lastProgressAt = now;
+        sendProgress({ state: phase, processed, total: totalBytes });
+      },
+    });
+  } catch (error) {
+    if (targetDir) {
+      await fs.rm(targetDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+
+    moveControllers.delete(gameId);
+
+    const cancelled = error instanceof Error && error.name === 'AbortError';
+    const message = cancelled
+      ? 'Movimentação cancelada.'
+      : error instanceof Error
+        ? error.message
+        : 'Falha ao mover o jogo.';
+
+    sendProgress({ state: cancelled ? 'cancelled' : 'failed', message });
+    return { success: false, cancelled, message };
+  }
+
+  moveControllers.delete(gameId);
+
+  const executablePath =
+    payload.executablePath && isSameOrInside(sourceDir, payload.executablePath)
+      ? path.join(targetDir, path.relative(sourceDir, payload.executablePath))
+      : payload.executablePath;
+
+  sendProgress({ state: 'removing' });
+
+  // The copy is verified at this point, so a failed cleanup only leaves the old folder behind.
+  const removeError = await fs
+    .rm(sourceDir, { recursive: true, force: true })
+    .then(() => undefined)
+    .catch((error: unknown) => error);
+
+  let shortcutError: unknown;
+
+  if (executablePath && Array.isArray(payload.shortcuts) && payload.shortcuts.length > 0) {
+    try {
+      await relocateGameShortcuts(payload.shortcuts, {
+        gameId,
+        title: payload.title || path.basename(targetDir),
+        executablePath,
+      });
+    } catch (error) {
+      shortcutError = error;
+    }
+  }
+
+  const message = [
+    removeError
+      ? `Jogo movido, mas não foi possível apagar ${sourceDir}. Remova a pasta manualmente.`
+      : undefined,
+    shortcutError
+      ? 'Os atalhos ainda apontam para a pasta antiga; recrie-os nas configurações do jogo.'
+      : undefined,
+  ]
+    .filter(Boolean)
+    .join(' ') || undefined;
+
+  sendProgress({ state: 'completed', installDirectory: targetDir, executablePath, message });
+
+  return { success: true, installDirectory: targetDir, executablePath, message };
+});
+
+ipcMain.handle('library:cancel-move', async (_event, gameId: string) => {
+  const controller = moveControllers.get(gameId);
+
+  if (!controller) {
+    return { success: false, message: 'Nenhuma movimentação em andamento.' };
+  }
+
+  controller.abort();
+  return { success: true };
+});
+
+// `app.quit()` always exits with 0; scripts need to see a failed headless command.
+app.on('will-quit', () => {
+  try {
+    flushLibraryDataSync();
+  } catch (error) {
+    console.error('Falha ao salvar os dados da biblioteca ao sair', error);
+  }
+
+  if (cliExitCode) {
+    app.exit(cliExitCode);
+  }
+});
+
 app.on('before-quit', async () => {
+  downloadQueue.clear();
+
+  for (const controller of moveControllers.values()) {
+    controller.abort();
+  }
+
   for (const [gameId, controller] of downloadControllers.entries()) {
-    abortReasons.set(gameId, 'cancelled');
+    abortReasons.set(gameId, 'interrupted');
     controller.abort();
   }
   downloadControllers.clear();
@@ -0,0 +1,57 @@
+import { createHash, Hash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { Transform } from 'node:stream';
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+const HASH_READ_CHUNK = 4 * 1024 * 1024;
+
+export const normalizeSha256 = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  return SHA256_PATTERN.test(normalized) ? normalized : undefined;
+};
+
+export const createChecksumError = (message: string) => {
+  const error = new Error(message);
+  error.name = 'ChecksumMismatchError';
+  return error;
+};
+
+export const createHashingStream = (hash: Hash) =>
+  new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+export const hashFile = async (
+  filePath: string,
+  onProgress?: (processed: number) => void,
+  signal?: AbortSignal,
+) => {
+  const hash = createHash('sha256');
+  const stream = createReadStream(filePath, { highWaterMark: HASH_READ_CHUNK });
+  let processed = 0;
+
+  try {
+    for await (const chunk of stream) {
+      if (signal?.aborted) {
+        const abortError = new Error('Verificação cancelada.');
+        abortError.name = 'AbortError';
+        throw abortError;
+      }
+
+      hash.update(chunk as Buffer);
+      processed += (chunk as Buffer).length;
+      onProgress?.(processed);
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return hash.digest('hex');
+};
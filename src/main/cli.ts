@@ -0,0 +1,213 @@
+import { randomUUID } from 'node:crypto';
+import { rmSync } from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+export type CliCommand =
+  | { action: 'list' }
+  | { action: 'refresh-catalog' }
+  | { action: 'launch'; id: string }
+  | { action: 'install'; id: string };
+
+export type CliRequest = {
+  id: string;
+  command: CliCommand;
+  /** Started from the command line with no visible window; the app quits once the command is done. */
+  headless: boolean;
+};
+
+export type CliResult = {
+  success: boolean;
+  message?: string;
+  [key: string]: unknown;
+};
+
+/** One line sent back to a second process waiting for the command it forwarded. */
+type CliReply = { accepted: true } | { result: CliResult } | { finished: boolean };
+
+const REPLY_ADDRESS_PATTERN = /launcher-pir-cli-[0-9a-f-]{36}(\.sock)?$/;
+// Without an answer by then the running launcher is too old to reply; the command still went through.
+const ACCEPT_TIMEOUT_MS = 10_000;
+
+const createUsageError = (message: string) => {
+  const error = new Error(message);
+  error.name = 'CliUsageError';
+  return error;
+};
+
+/**
+ * Finds `--list`, `--refresh-catalog`, `--launch <id>` or `--install <id>`
+ * (also `--launch=<id>`) in `argv`. Everything else, including the switches
+ * Chromium adds on its own, is ignored.
+ */
+export const parseCliArgs = (argv: string[]): CliCommand | null => {
+  let command: CliCommand | null = null;
+
+  const use = (next: CliCommand) => {
+    if (command) {
+      throw createUsageError('Informe apenas um comando por vez.');
+    }
+    command = next;
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const separator = argv[index].indexOf('=');
+    const flag = separator === -1 ? argv[index] : argv[index].slice(0, separator);
+    const inlineValue = separator === -1 ? undefined : argv[index].slice(separator + 1);
+
+    switch (flag) {
+      case '--list':
+        use({ action: 'list' });
+        break;
+      case '--refresh-catalog':
+        use({ action: 'refresh-catalog' });
+        break;
+      case '--launch':
+      case '--install': {
+        const id = (inlineValue ?? argv[index + 1] ?? '').trim();
+
+        if (!id || id.startsWith('--')) {
+          throw createUsageError(`Informe o id do jogo após ${flag}.`);
+        }
+
+        if (inlineValue === undefined) {
+          index += 1;
+        }
+
+        use({ action: flag === '--launch' ? 'launch' : 'install', id });
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return command;
+};
+
+/** One JSON document per line so scripts can read results as they come. */
+export const printCliResult = (result: CliResult) => {
+  process.stdout.write(`${JSON.stringify(result)}\n`);
+};
+
+export const isCliReplyAddress = (value: unknown): value is string =>
+  typeof value === 'string' && REPLY_ADDRESS_PATTERN.test(value);
+
+/**
+ * Opened by a second launch before it forwards its command, so the running
+ * launcher can send the results back and scripts read them from this
+ * process's stdout. `wait` resolves with the exit code.
+ */
+export const listenForCliReplies = () => {
+  const address =
+    process.platform === 'win32'
+      ? `\\\\.\\pipe\\launcher-pir-cli-${randomUUID()}`
+      : path.join(os.tmpdir(), `launcher-pir-cli-${randomUUID()}.sock`);
+  let accepted = false;
+  let exitCode: number | null = null;
+  let finalCode: number | null = null;
+  let settle: ((code: number) => void) | null = null;
+  let timer: NodeJS.Timeout | undefined;
+
+  const finish = (code: number) => {
+    if (finalCode !== null) {
+      return;
+    }
+
+    finalCode = code;
+    clearTimeout(timer);
+    server.close();
+    if (process.platform !== 'win32') {
+      rmSync(address, { force: true });
+    }
+    settle?.(code);
+  };
+
+  const handleReply = (line: string) => {
+    let reply: CliReply;
+    try {
+      reply = JSON.parse(line) as CliReply;
+    } catch {
+      return;
+    }
+
+    if ('accepted' in reply) {
+      accepted = true;
+      clearTimeout(timer);
+    } else if ('result' in reply) {
+      printCliResult(reply.result);
+    } else if ('finished' in reply) {
+      exitCode = reply.finished ? 0 : 1;
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      for (let index = buffer.indexOf('\n'); index !== -1; index = buffer.indexOf('\n')) {
+        handleReply(buffer.slice(0, index));
+        buffer = buffer.slice(index + 1);
+      }
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      if (exitCode === null) {
+        printCliResult({ success: false, message: 'O launcher foi fechado antes de concluir o comando.' });
+      }
+      finish(exitCode ?? 1);
+    });
+  });
+
+  const forwardOnly = () => {
+    printCliResult({ success: true, forwarded: true, message: 'Comando enviado ao launcher que já está aberto.' });
+    finish(0);
+  };
+
+  server.on('error', forwardOnly);
+  // Bound synchronously, before the running launcher can learn the address.
+  server.listen(address);
+
+  return {
+    address,
+    close: () => finish(0),
+    wait: () =>
+      new Promise<number>((resolve) => {
+        if (finalCode !== null) {
+          resolve(finalCode);
+          return;
+        }
+
+        settle = resolve;
+        timer = setTimeout(() => {
+          if (!accepted) {
+            forwardOnly();
+          }
+        }, ACCEPT_TIMEOUT_MS);
+      }),
+  };
+};
+
+/** The running launcher's end of `listenForCliReplies`. */
+export const openCliReplyChannel = (address: string) => {
+  const socket = net.connect(address);
+  socket.on('error', () => undefined);
+
+  const write = (reply: CliReply) => {
+    if (!socket.destroyed) {
+      socket.write(`${JSON.stringify(reply)}\n`);
+    }
+  };
+
+  write({ accepted: true });
+
+  return {
+    send: (result: CliResult) => write({ result }),
+    finish: (success: boolean) => {
+      write({ finished: success });
+      socket.end();
+    },
+  };
+};
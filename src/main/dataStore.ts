@@ -0,0 +1,158 @@
+import { app } from 'electron';
+import { mkdirSync, renameSync, writeFileSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/** What the renderer persists: library entries, the store catalog and download history. */
+export type LibraryData = {
+  games: unknown[];
+  storeGames: unknown[];
+  downloadRecords: unknown[];
+};
+
+type SaveWaiter = { resolve: () => void; reject: (error: unknown) => void };
+
+let pendingData: LibraryData | null = null;
+let pendingWaiters: SaveWaiter[] = [];
+// Newest data not known to be on disk: pending, still being written, or from a failed write.
+let unsavedData: LibraryData | null = null;
+let draining = false;
+let tempCounter = 0;
+let writeSequence = 0;
+let flushedSequence = 0;
+
+const getDataPath = () => path.join(app.getPath('userData'), 'library.json');
+
+// Each write gets its own temp file so a late async write never renames a half-written one.
+const getTempPath = (dataPath: string) => `${dataPath}.${process.pid}-${(tempCounter += 1)}.tmp`;
+
+export const isLibraryData = (value: unknown): value is LibraryData => {
+  const data = value as Partial<LibraryData> | null;
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray(data.games) &&
+    Array.isArray(data.storeGames) &&
+    Array.isArray(data.downloadRecords)
+  );
+};
+
+/** Null when nothing was saved yet, so the caller can import older data. */
+export const loadLibraryData = async (): Promise<LibraryData | null> => {
+  const dataPath = getDataPath();
+  let raw: string;
+
+  try {
+    raw = await fs.readFile(dataPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (isLibraryData(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Handled below together with a file of the wrong shape.
+  }
+
+  // Keep the unreadable file around instead of overwriting it with the next save.
+  const corruptPath = `${dataPath}.corrupt-${Date.now()}`;
+  await fs.rename(dataPath, corruptPath);
+  console.warn(`Dados da biblioteca ilegíveis; arquivo movido para ${corruptPath}`);
+  return null;
+};
+
+const writeAtomically = async (data: LibraryData, sequence: number) => {
+  const dataPath = getDataPath();
+  const tempPath = getTempPath(dataPath);
+
+  await fs.mkdir(path.dirname(dataPath), { recursive: true });
+
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+
+    // A flush on quit already wrote newer data; this older copy must not replace it.
+    if (sequence < flushedSequence) {
+      await fs.rm(tempPath, { force: true });
+      return;
+    }
+
+    await fs.rename(tempPath, dataPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+};
+
+const drainPendingData = async () => {
+  draining = true;
+
+  try {
+    while (pendingData) {
+      const next = pendingData;
+      const waiters = pendingWaiters;
+      pendingData = null;
+      pendingWaiters = [];
+      writeSequence += 1;
+
+      // A failed write only fails its own callers; newer data still gets its turn.
+      try {
+        await writeAtomically(next, writeSequence);
+        if (unsavedData === next) {
+          unsavedData = null;
+        }
+        waiters.forEach((waiter) => waiter.resolve());
+      } catch (error) {
+        waiters.forEach((waiter) => waiter.reject(error));
+      }
+    }
+  } finally {
+    draining = false;
+  }
+};
+
+/**
+ * Saves are coalesced: while a write is running only the most recent data
+ * waits for the next one, so bursts of updates cost at most two writes.
+ * Each call settles with the write that carried its data or newer data.
+ */
+export const saveLibraryData = (data: LibraryData): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    pendingData = data;
+    unsavedData = data;
+    pendingWaiters.push({ resolve, reject });
+
+    if (!draining) {
+      void drainPendingData();
+    }
+  });
+
+/**
+ * The only save on quit, when there is no event loop left to finish an async
+ * write. Also covers data whose write is still running or has failed.
+ */
+export const flushLibraryDataSync = () => {
+  if (!unsavedData) {
+    return;
+  }
+
+  const dataPath = getDataPath();
+  const tempPath = getTempPath(dataPath);
+  const data = unsavedData;
+  const waiters = pendingWaiters;
+  unsavedData = null;
+  pendingData = null;
+  pendingWaiters = [];
+  writeSequence += 1;
+  flushedSequence = writeSequence;
+
+  mkdirSync(path.dirname(dataPath), { recursive: true });
+  writeFileSync(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  renameSync(tempPath, dataPath);
+  waiters.forEach((waiter) => waiter.resolve());
+};
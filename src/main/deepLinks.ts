@@ -0,0 +1,58 @@
+import { app } from 'electron';
+import path from 'node:path';
+
+export const DEEP_LINK_PROTOCOL = 'launcherpir';
+
+export type DeepLinkAction = 'store' | 'install' | 'launch';
+
+export type DeepLink = {
+  action: DeepLinkAction;
+  id: string;
+};
+
+const ACTIONS: DeepLinkAction[] = ['store', 'install', 'launch'];
+const ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+/** `launcherpir://<action>/<id>`; anything else is ignored rather than guessed at. */
+export const parseDeepLink = (value: string): DeepLink | null => {
+  let url: URL;
+
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== `${DEEP_LINK_PROTOCOL}:`) {
+    return null;
+  }
+
+  const action = url.hostname.toLowerCase() as DeepLinkAction;
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (!ACTIONS.includes(action) || segments.length !== 1) {
+    return null;
+  }
+
+  let id: string;
+  try {
+    id = decodeURIComponent(segments[0]);
+  } catch {
+    return null;
+  }
+
+  return ID_PATTERN.test(id) ? { action, id } : null;
+};
+
+/** Windows and Linux hand the link over as a command-line argument. */
+export const findDeepLinkArg = (argv: string[]) =>
+  argv.find((arg) => arg.toLowerCase().startsWith(`${DEEP_LINK_PROTOCOL}://`));
+
+export const registerDeepLinkProtocol = () => {
+  // In development Electron runs the app as `electron <entry>`, so the entry has to be passed along.
+  if (process.defaultApp && process.argv.length >= 2) {
+    return app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL, process.execPath, [path.resolve(process.argv[1])]);
+  }
+
+  return app.setAsDefaultProtocolClient(DEEP_LINK_PROTOCOL);
+};
@@ -0,0 +1,57 @@
+import { existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type DiskSpaceInfo = {
+  path: string;
+  free: number;
+  total: number;
+};
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const order = bytes > 0 ? Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1) : 0;
+  return `${(bytes / 1024 ** order).toFixed(1)} ${units[order]}`;
+};
+
+// statfs needs an existing path, so walk up until one exists (e.g. a library folder not created yet).
+const findExistingAncestor = (target: string) => {
+  let current = path.resolve(target);
+
+  while (!existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+
+  return current;
+};
+
+export const getDiskSpace = async (target: string): Promise<DiskSpaceInfo> => {
+  const existing = findExistingAncestor(target);
+  const stats = await fs.statfs(existing);
+
+  return {
+    path: target,
+    free: stats.bavail * stats.bsize,
+    total: stats.blocks * stats.bsize,
+  };
+};
+
+export const ensureFreeSpace = async (target: string, requiredBytes: number, purpose: string) => {
+  if (!requiredBytes || requiredBytes <= 0) {
+    return;
+  }
+
+  const { free } = await getDiskSpace(target);
+
+  if (free < requiredBytes) {
+    const error = new Error(
+      `Espaço insuficiente para ${purpose} em ${target}: são necessários ${formatBytes(requiredBytes)}, mas há apenas ${formatBytes(free)} livres.`,
+    );
+    error.name = 'InsufficientSpaceError';
+    throw error;
+  }
+};
@@ -0,0 +1,112 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+
+import { normalizeSha256 } from './checksum';
+import { ensureFreeSpace } from './diskSpace';
+import { detectArchiveFormat, stripArchiveExtension } from './extractors';
+
+export type DownloadPart = {
+  url: string;
+  sizeBytes?: number;
+  sha256?: string;
+};
+
+const PART_SUFFIX_PATTERN = /\.\d{3}$/;
+
+/** Accepts plain URLs or `{ url, sizeBytes, sha256 }` objects, in catalog order. */
+export const normalizeDownloadParts = (value: unknown): DownloadPart[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry: unknown) => {
+    const record = typeof entry === 'string' ? { url: entry } : (entry as Record<string, unknown>);
+    const url = typeof record?.url === 'string' ? record.url.trim() : '';
+
+    if (!/^https?:\/\//i.test(url)) {
+      return [];
+    }
+
+    const { sizeBytes } = record;
+
+    return [
+      {
+        url,
+        sizeBytes:
+          typeof sizeBytes === 'number' && Number.isInteger(sizeBytes) && sizeBytes > 0
+            ? sizeBytes
+            : undefined,
+        sha256: normalizeSha256(record.sha256),
+      },
+    ];
+  });
+};
+
+// Parts are stored as `Game.zip.001`, `Game.zip.002`, … next to where the archive will be.
+export const getPartPath = (archivePath: string, index: number) =>
+  `${archivePath}.${String(index + 1).padStart(3, '0')}`;
+
+export const isPartPath = (filePath: string) => PART_SUFFIX_PATTERN.test(filePath);
+
+export const getArchivePathFromPart = (partPath: string) => partPath.replace(PART_SUFFIX_PATTERN, '');
+
+/** Part files of the same download that exist on disk, found from any one of them. */
+export const listExistingParts = async (partPath: string) => {
+  const archivePath = getArchivePathFromPart(partPath);
+  const prefix = `${path.basename(archivePath)}.`;
+  const names = await fs.readdir(path.dirname(archivePath)).catch((): string[] => []);
+
+  return names
+    .filter((name) => name.startsWith(prefix) && isPartPath(name) && name.length === prefix.length + 3)
+    .sort()
+    .map((name) => path.join(path.dirname(archivePath), name));
+};
+
+/**
+ * Turns the downloaded parts into something an extractor can open. RAR volume
+ * sets (every part carries its own RAR header) are renamed to `Game.partN.rar`;
+ * anything else was split byte-wise (`.zip.001`, `.7z.001`) and is joined back
+ * into a single archive. Returns the path to hand to the extractor.
+ */
+export const assembleParts = async (partPaths: string[], archivePath: string, signal?: AbortSignal) => {
+  const [firstFormat, secondFormat] = await Promise.all(
+    partPaths.slice(0, 2).map((partPath) => detectArchiveFormat(partPath)),
+  );
+
+  if (firstFormat === 'rar' && secondFormat === 'rar') {
+    const base = stripArchiveExtension(path.basename(archivePath));
+    const width = String(partPaths.length).length;
+    const volumes = partPaths.map((_partPath, index) =>
+      path.join(path.dirname(archivePath), `${base}.part${String(index + 1).padStart(width, '0')}.rar`),
+    );
+
+    for (const [index, partPath] of partPaths.entries()) {
+      await fs.rename(partPath, volumes[index]);
+    }
+
+    return volumes[0];
+  }
+
+  const sizes = await Promise.all(partPaths.map((partPath) => fs.stat(partPath).then((stats) => stats.size)));
+  await ensureFreeSpace(
+    path.dirname(archivePath),
+    sizes.reduce((sum, size) => sum + size, 0),
+    'juntar as partes do arquivo',
+  );
+
+  await fs.unlink(archivePath).catch(() => undefined);
+
+  try {
+    for (const partPath of partPaths) {
+      await pipeline(createReadStream(partPath), createWriteStream(archivePath, { flags: 'a' }), { signal });
+    }
+  } catch (error) {
+    await fs.unlink(archivePath).catch(() => undefined);
+    throw error;
+  }
+
+  await Promise.all(partPaths.map((partPath) => fs.unlink(partPath).catch(() => undefined)));
+  return archivePath;
+};
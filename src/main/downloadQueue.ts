@@ -0,0 +1,103 @@
+type QueuedJob<T> = {
+  id: string;
+  payload: T;
+};
+
+export type WaitingJob<T> = QueuedJob<T> & {
+  position: number;
+};
+
+type DownloadQueueOptions<T> = {
+  getConcurrency: () => number;
+  run: (id: string, payload: T) => Promise<unknown>;
+  onWaitingChanged: (waiting: Array<WaitingJob<T>>) => void;
+};
+
+export const createDownloadQueue = <T>({
+  getConcurrency,
+  run,
+  onWaitingChanged,
+}: DownloadQueueOptions<T>) => {
+  const waiting: Array<QueuedJob<T>> = [];
+  const running = new Set<string>();
+
+  const notify = () => {
+    onWaitingChanged(waiting.map((job, index) => ({ ...job, position: index + 1 })));
+  };
+
+  const pump = () => {
+    while (waiting.length > 0 && running.size < Math.max(1, getConcurrency())) {
+      const job = waiting.shift();
+      if (!job) {
+        break;
+      }
+
+      running.add(job.id);
+      run(job.id, job.payload)
+        .catch((error) => console.error('Falha ao executar download da fila', error))
+        .finally(() => {
+          running.delete(job.id);
+          pump();
+        });
+    }
+
+    notify();
+  };
+
+  const enqueue = (id: string, payload: T) => {
+    if (running.has(id)) {
+      return { queued: false as const, position: 0 };
+    }
+
+    const existingIndex = waiting.findIndex((job) => job.id === id);
+
+    if (existingIndex >= 0) {
+      waiting[existingIndex] = { id, payload };
+    } else {
+      waiting.push({ id, payload });
+    }
+
+    pump();
+
+    const position = waiting.findIndex((job) => job.id === id);
+    return { queued: true as const, position: position >= 0 ? position + 1 : 0 };
+  };
+
+  const remove = (id: string) => {
+    const index = waiting.findIndex((job) => job.id === id);
+
+    if (index < 0) {
+      return false;
+    }
+
+    waiting.splice(index, 1);
+    notify();
+    return true;
+  };
+
+  const move = (id: string, toIndex: number) => {
+    const index = waiting.findIndex((job) => job.id === id);
+
+    if (index < 0) {
+      return false;
+    }
+
+    const [job] = waiting.splice(index, 1);
+    const target = Math.min(Math.max(Math.round(toIndex), 0), waiting.length);
+    waiting.splice(target, 0, job);
+    notify();
+    return true;
+  };
+
+  return {
+    enqueue,
+    remove,
+    move,
+    pump,
+    isWaiting: (id: string) => waiting.some((job) => job.id === id),
+    isRunning: (id: string) => running.has(id),
+    clear: () => {
+      waiting.splice(0, waiting.length);
+    },
+  };
+};
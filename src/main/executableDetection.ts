@@ -0,0 +1,274 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type ExecutableCandidate = {
+  path: string;
+  relativePath: string;
+  size: number;
+  score: number;
+};
+
+type PeInfo = { subsystem?: number; isDll: boolean } | null;
+
+/** What a non-`.exe` candidate turned out to be from its first bytes. */
+type NativeKind = 'elf' | 'script' | 'appimage';
+
+const IMAGE_SUBSYSTEM_WINDOWS_GUI = 2;
+const IMAGE_SUBSYSTEM_WINDOWS_CUI = 3;
+const IMAGE_FILE_DLL = 0x2000;
+const ELF_MAGIC = Buffer.from([0x7f, 0x45, 0x4c, 0x46]);
+
+// Native builds rarely have an extension; these are the ones Unity, Godot and friends use.
+const NATIVE_NAME_EXTENSIONS = ['', '.x86_64', '.x86', '.x64', '.bin', '.run', '.sh', '.appimage'];
+const SHARED_LIBRARY = /\.so(\.\d+)*$/i;
+const STRIPPED_EXTENSIONS = /\.(exe|sh|appimage|x86_64|x86|x64|bin|run)$/;
+
+// Helpers that ship next to almost every game and are never what the player wants to start.
+const BLOCKED_NAMES = [
+  /^unins\d*$/,
+  /uninstall/,
+  /crash(handler|report|pad|sender)/,
+  /^vc_?redist/,
+  /^dxsetup$/,
+  /^dxwebsetup$/,
+  /^dotnet/,
+  /^ndp\d/,
+  /^oalinst$/,
+  /^physx/,
+  /prereq/,
+  /redist/,
+  /^setup$/,
+  /installer/,
+  /^easyanticheat_(eos_)?setup$/,
+  /^(cef|cefsharp\.browser)?subprocess$/,
+  /^dxdiag$/,
+  /^7z(a|g|fm)?$/,
+  /^install$/,
+];
+const BLOCKED_FOLDERS = /(^|\/)(_?commonredist|redist|redistributables?|directx|vcredist|dotnet|support|_installer|installers?|prereqs?)(\/|$)/;
+
+const normalizeWords = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1);
+
+const readPeInfo = async (filePath: string): Promise<PeInfo> => {
+  const handle = await fs.open(filePath, 'r').catch(() => null);
+
+  if (!handle) {
+    return null;
+  }
+
+  try {
+    const dosHeader = Buffer.alloc(64);
+    await handle.read(dosHeader, 0, 64, 0);
+
+    if (dosHeader.toString('latin1', 0, 2) !== 'MZ') {
+      return null;
+    }
+
+    const peOffset = dosHeader.readUInt32LE(0x3c);
+    const peHeader = Buffer.alloc(24 + 70);
+    const { bytesRead } = await handle.read(peHeader, 0, peHeader.length, peOffset);
+
+    if (bytesRead < peHeader.length || peHeader.toString('latin1', 0, 4) !== 'PE\0\0') {
+      return { isDll: false };
+    }
+
+    // Subsystem sits at the same offset of the optional header for PE32 and PE32+.
+    return {
+      isDll: (peHeader.readUInt16LE(22) & IMAGE_FILE_DLL) !== 0,
+      subsystem: peHeader.readUInt16LE(24 + 68),
+    };
+  } finally {
+    await handle.close();
+  }
+};
+
+/** ELF binaries, shebang scripts and AppImages; null for anything else, like data files with the executable bit. */
+const readNativeKind = async (filePath: string): Promise<NativeKind | null> => {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.appimage') {
+    return 'appimage';
+  }
+
+  if (extension === '.sh') {
+    return 'script';
+  }
+
+  const handle = await fs.open(filePath, 'r').catch(() => null);
+
+  if (!handle) {
+    return null;
+  }
+
+  try {
+    const header = Buffer.alloc(4);
+    const { bytesRead } = await handle.read(header, 0, 4, 0);
+
+    if (bytesRead === 4 && header.equals(ELF_MAGIC)) {
+      return 'elf';
+    }
+
+    return header.toString('latin1', 0, 2) === '#!' ? 'script' : null;
+  } finally {
+    await handle.close();
+  }
+};
+
+const scoreCandidate = async (
+  filePath: string,
+  relativePath: string,
+  size: number,
+  titleWords: string[],
+  nativeKind: NativeKind | null,
+) => {
+  const portable = relativePath.replace(/\\/g, '/').toLowerCase();
+  const baseName = path.basename(portable).replace(STRIPPED_EXTENSIONS, '');
+  const depth = portable.split('/').length - 1;
+  let score = 0;
+
+  if (BLOCKED_NAMES.some((pattern) => pattern.test(baseName))) {
+    score -= 100;
+  }
+
+  if (BLOCKED_FOLDERS.test(path.dirname(portable))) {
+    score -= 40;
+  }
+
+  const nameWords = normalizeWords(path.basename(relativePath, path.extname(relativePath)));
+  const compactName = nameWords.join('');
+  const compactTitle = titleWords.join('');
+
+  if (compactTitle && compactName === compactTitle) {
+    score += 60;
+  } else if (compactTitle && compactName && (compactName.includes(compactTitle) || compactTitle.includes(compactName))) {
+    score += 40;
+  } else if (titleWords.length > 0) {
+    const shared = nameWords.filter((word) => titleWords.includes(word)).length;
+    score += Math.round((shared / titleWords.length) * 30);
+  }
+
+  // Unreal ships the real game as `<Name>-Win64-Shipping.exe` under Binaries/Win64 (`-Linux-Shipping` natively).
+  if (/-(win64|linux)-shipping$/.test(baseName)) {
+    score += 10;
+  }
+
+  // Launchers and games are the big binaries; helpers are usually a few hundred KB.
+  score += Math.min(20, Math.round(Math.log2(size / (1024 * 1024) + 1) * 4));
+  score -= depth * 4;
+
+  // A native build runs without Wine, so it beats the Windows one shipped next to it.
+  if (nativeKind) {
+    return score + (nativeKind === 'script' ? 10 : 20);
+  }
+
+  const pe = await readPeInfo(filePath);
+
+  if (!pe) {
+    score -= 50;
+  } else if (pe.isDll) {
+    score -= 50;
+  } else if (pe.subsystem === IMAGE_SUBSYSTEM_WINDOWS_GUI) {
+    score += 15;
+  } else if (pe.subsystem === IMAGE_SUBSYSTEM_WINDOWS_CUI) {
+    score -= 10;
+  }
+
+  return score;
+};
+
+type FoundExecutable = { path: string; nativeKind: NativeKind | null };
+
+// Only files that could be a native build are opened, so big asset folders stay cheap to walk.
+const mayBeNative = async (filePath: string, name: string) => {
+  if (SHARED_LIBRARY.test(name)) {
+    return false;
+  }
+
+  if (NATIVE_NAME_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+    return true;
+  }
+
+  const stats = await fs.stat(filePath).catch(() => null);
+  return Boolean(stats && stats.mode & 0o111);
+};
+
+/** `.exe` files everywhere; on Linux and macOS also ELF binaries, scripts and AppImages. */
+const collectExecutables = async (rootDir: string, dir = rootDir): Promise<FoundExecutable[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const found: FoundExecutable[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      found.push(...(await collectExecutables(rootDir, fullPath)));
+    } else if (!entry.isFile()) {
+      continue;
+    } else if (entry.name.toLowerCase().endsWith('.exe')) {
+      found.push({ path: fullPath, nativeKind: null });
+    } else if (process.platform !== 'win32' && (await mayBeNative(fullPath, entry.name))) {
+      const nativeKind = await readNativeKind(fullPath);
+      if (nativeKind) {
+        found.push({ path: fullPath, nativeKind });
+      }
+    }
+  }
+
+  return found;
+};
+
+// Archives often wrap everything in a single top folder; depth is counted from inside it.
+const findContentRoot = async (rootDir: string) => {
+  let current = rootDir;
+
+  for (;;) {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+
+    if (entries.length !== 1 || !entries[0].isDirectory()) {
+      return current;
+    }
+
+    current = path.join(current, entries[0].name);
+  }
+};
+
+/** Every executable under `rootDir`, best match for `gameTitle` first. */
+export const rankExecutables = async (rootDir: string, gameTitle?: string) => {
+  const contentRoot = await findContentRoot(rootDir);
+  const titleWords = normalizeWords(gameTitle ?? '');
+  const candidates: ExecutableCandidate[] = [];
+
+  for (const { path: filePath, nativeKind } of await collectExecutables(rootDir)) {
+    const { size } = await fs.stat(filePath);
+    const relativePath = path.relative(contentRoot, filePath);
+    const score = await scoreCandidate(filePath, relativePath, size, titleWords, nativeKind);
+    candidates.push({ path: filePath, relativePath: path.relative(rootDir, filePath), size, score });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+const MIN_CONFIDENT_SCORE = 35;
+const MIN_CONFIDENT_MARGIN = 15;
+
+/** True when only one candidate is plausible, or the best one is good and clearly ahead of the rest. */
+export const isConfidentChoice = (candidates: ExecutableCandidate[]) => {
+  const [best, runnerUp] = candidates;
+
+  if (!best || best.score <= 0) {
+    return false;
+  }
+
+  if (!runnerUp || runnerUp.score <= 0) {
+    return true;
+  }
+
+  return best.score >= MIN_CONFIDENT_SCORE && best.score - runnerUp.score >= MIN_CONFIDENT_MARGIN;
+};
@@ -0,0 +1,88 @@
+import fs from 'node:fs/promises';
+
+import { ArchiveFormat } from './types';
+
+const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', '7z', 'rar', 'tar', 'tar.gz', 'tar.xz'];
+
+// Longest suffixes first so `.tar.gz` wins over `.gz`.
+const EXTENSIONS: Array<[string, ArchiveFormat]> = [
+  ['.tar.gz', 'tar.gz'],
+  ['.tar.xz', 'tar.xz'],
+  ['.tgz', 'tar.gz'],
+  ['.txz', 'tar.xz'],
+  ['.zip', 'zip'],
+  ['.7z', '7z'],
+  ['.rar', 'rar'],
+  ['.tar', 'tar'],
+];
+
+type Signature = { format: ArchiveFormat; offset: number; bytes: number[] };
+
+const TAR_SIGNATURE: Signature = { format: 'tar', offset: 257, bytes: [0x75, 0x73, 0x74, 0x61, 0x72] };
+
+const SIGNATURES: Signature[] = [
+  { format: 'zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { format: 'zip', offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { format: '7z', offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { format: 'rar', offset: 0, bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  // gzip and xz wrap any single stream; resolveArchiveFormat checks that a tarball is inside.
+  { format: 'tar.gz', offset: 0, bytes: [0x1f, 0x8b] },
+  { format: 'tar.xz', offset: 0, bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  TAR_SIGNATURE,
+];
+
+/** Also the size of a tar header block. */
+export const HEADER_LENGTH = 512;
+
+const matchesSignature = (header: Buffer, length: number, { offset, bytes }: Signature) =>
+  offset + bytes.length <= length && bytes.every((byte, index) => header[offset + index] === byte);
+
+/** POSIX and GNU tar headers carry `ustar` at offset 257; older tarballs have no signature. */
+export const isTarHeader = (header: Buffer) => matchesSignature(header, header.length, TAR_SIGNATURE);
+
+export const normalizeArchiveFormat = (value: unknown): ArchiveFormat | undefined => {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase().replace(/^\./, '');
+  const aliases: Record<string, ArchiveFormat> = { tgz: 'tar.gz', txz: 'tar.xz' };
+  const format = aliases[normalized] ?? normalized;
+
+  return ARCHIVE_FORMATS.includes(format as ArchiveFormat) ? (format as ArchiveFormat) : undefined;
+};
+
+export const getArchiveFormatFromName = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  return EXTENSIONS.find(([extension]) => lower.endsWith(extension))?.[1];
+};
+
+export const stripArchiveExtension = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  const match = EXTENSIONS.find(([extension]) => lower.endsWith(extension));
+
+  if (!match) {
+    return fileName;
+  }
+
+  const base = fileName.slice(0, -match[0].length);
+  // `Game.part1.rar` installs into `Game`, like a single-volume archive would.
+  return match[1] === 'rar' ? base.replace(/\.part\d+$/i, '') : base;
+};
+
+export const ensureArchiveExtension = (fileName: string, format: ArchiveFormat = 'zip') =>
+  getArchiveFormatFromName(fileName) ? fileName : `${fileName}.${format}`;
+
+/** Identifies the archive by its leading bytes; the file name is only a fallback. */
+export const detectArchiveFormat = async (filePath: string) => {
+  const handle = await fs.open(filePath, 'r');
+
+  try {
+    const header = Buffer.alloc(HEADER_LENGTH);
+    const { bytesRead } = await handle.read(header, 0, HEADER_LENGTH, 0);
+
+    return SIGNATURES.find((signature) => matchesSignature(header, bytesRead, signature))?.format;
+  } finally {
+    await handle.close();
+  }
+};
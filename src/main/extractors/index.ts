@@ -0,0 +1,65 @@
+import { detectArchiveFormat, getArchiveFormatFromName, HEADER_LENGTH, isTarHeader } from './detect';
+import { rarExtractor } from './rar';
+import { listRarVolumes } from './rarVolumes';
+import { readDecompressedHeader, sevenZipExtractor } from './sevenZip';
+import { ArchiveExtractor, ArchiveFormat } from './types';
+import { zipExtractor } from './zip';
+
+export {
+  detectArchiveFormat,
+  ensureArchiveExtension,
+  normalizeArchiveFormat,
+  stripArchiveExtension,
+} from './detect';
+export type { ArchiveFormat, ExtractionProgress } from './types';
+export {
+  assertNoEscapingLinks,
+  assertSafeCompressionRatio,
+  estimateRemainingSeconds,
+  watchExtractedBytes,
+} from './utils';
+
+const extractors: ArchiveExtractor[] = [zipExtractor, sevenZipExtractor, rarExtractor];
+
+export const findArchiveExtractor = (format: ArchiveFormat) =>
+  extractors.find((extractor) => extractor.formats.includes(format));
+
+/**
+ * gzip and xz can wrap any file, so the tar path is only taken when the
+ * decompressed stream starts with a tar header or the catalog says it is a
+ * tarball (pre-POSIX ones have no `ustar` magic).
+ */
+const assertCompressedTar = async (archivePath: string, format: ArchiveFormat, hint?: ArchiveFormat) => {
+  if (hint === format) {
+    return;
+  }
+
+  if (!isTarHeader(await readDecompressedHeader(archivePath, format, HEADER_LENGTH))) {
+    const compression = format === 'tar.gz' ? 'gzip' : 'xz';
+    throw new Error(
+      `O arquivo está comprimido com ${compression}, mas não contém um tar. Use zip, 7z, rar ou tar.`,
+    );
+  }
+};
+
+/**
+ * Magic bytes decide; the catalog hint and then the file name only break ties
+ * for formats without a signature (e.g. pre-POSIX tarballs).
+ */
+export const resolveArchiveFormat = async (archivePath: string, hint?: ArchiveFormat) => {
+  const detected = await detectArchiveFormat(archivePath);
+  const format = detected ?? hint ?? getArchiveFormatFromName(archivePath);
+
+  if (!format) {
+    throw new Error('Formato de arquivo não reconhecido. Use zip, 7z, rar ou tar.');
+  }
+
+  if (detected === 'tar.gz' || detected === 'tar.xz') {
+    await assertCompressedTar(archivePath, detected, hint);
+  }
+
+  return format;
+};
+
+/** Files that make up the archive on disk, so all of them can be removed after extraction. */
+export const listArchiveFiles = (archivePath: string) => listRarVolumes(archivePath);
@@ -0,0 +1,84 @@
+import { createExtractorFromFile } from 'node-unrar-js';
+
+import { extractRarVolumes, measureRarVolumes } from './rarVolumes';
+import { ArchiveExtractor } from './types';
+import { assertSafeEntries, createAbortError } from './utils';
+
+const toReadableError = (error: unknown) => {
+  const reason = (error as { reason?: string })?.reason;
+
+  if (reason === 'ERAR_MISSING_PASSWORD' || reason === 'ERAR_BAD_PASSWORD') {
+    return new Error('Arquivos RAR protegidos por senha não são suportados.');
+  }
+
+  if (reason === 'ERAR_BAD_ARCHIVE' || reason === 'ERAR_BAD_DATA' || reason === 'ERAR_UNKNOWN_FORMAT') {
+    return new Error('Arquivo compactado inválido ou corrompido.');
+  }
+
+  return error instanceof Error ? error : new Error('Falha ao extrair o arquivo RAR.');
+};
+
+export const rarExtractor: ArchiveExtractor = {
+  formats: ['rar'],
+  measure: async (archivePath, _format, signal) => {
+    try {
+      const extractor = await createExtractorFromFile({ filepath: archivePath });
+      const { arcHeader, fileHeaders } = extractor.getFileList();
+
+      // Only the first volume can be listed here; the system tool reads the whole set.
+      if (arcHeader.flags.volume) {
+        return await measureRarVolumes(archivePath, signal);
+      }
+
+      let total = 0;
+      for (const header of fileHeaders) {
+        total += header.unpSize;
+      }
+      return total;
+    } catch (error) {
+      throw toReadableError(error);
+    }
+  },
+  // unrar runs as WebAssembly and writes each file in one go, so progress and
+  // cancellation happen between files rather than inside them.
+  extract: async (archivePath, targetDir, _format, options) => {
+    const { signal, bytesTotal, onProgress } = options;
+    const progress = { entriesProcessed: 0, entriesTotal: 0, bytesProcessed: 0, bytesTotal };
+
+    try {
+      const extractor = await createExtractorFromFile({ filepath: archivePath, targetPath: targetDir });
+      const { arcHeader, fileHeaders } = extractor.getFileList();
+
+      if (arcHeader.flags.volume) {
+        await extractRarVolumes(archivePath, targetDir, options);
+        return;
+      }
+
+      const headers = Array.from(fileHeaders);
+      // The whole listing is checked before unrar writes anything, like the volume path does.
+      assertSafeEntries(
+        targetDir,
+        headers.map((header) => ({ path: header.name, size: header.unpSize, directory: header.flags.directory })),
+      );
+      progress.entriesTotal = headers.length;
+      onProgress?.({ ...progress });
+
+      const { files } = extractor.extract();
+
+      for (const file of files) {
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+
+        progress.entriesProcessed += 1;
+        progress.bytesProcessed += file.fileHeader.unpSize;
+        onProgress?.({ ...progress });
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw error;
+      }
+      throw toReadableError(error);
+    }
+  },
+};
@@ -0,0 +1,201 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { parseSevenZipListing, readStoredLinkTargets } from './sevenZip';
+import { ArchiveEntry, ExtractOptions } from './types';
+import {
+  assertSafeEntries,
+  createUnsafeArchiveError,
+  readProcessOutput,
+  runWithAbort,
+  sumEntrySizes,
+  waitForProcess,
+} from './utils';
+
+const VOLUME_PATTERN = /^(.*)\.part(\d+)\.rar$/i;
+
+type VolumeTool = {
+  name: string;
+  command: string;
+  args: (archivePath: string, targetDir: string) => string[];
+  list: (command: string, archivePath: string, signal?: AbortSignal) => Promise<ArchiveEntry[]>;
+};
+
+const UNRAR_ARGS = (archivePath: string, targetDir: string) => [
+  'x',
+  '-y',
+  '-o+',
+  '--',
+  archivePath,
+  `${targetDir}${path.sep}`,
+];
+const SEVEN_ZIP_ARGS = (archivePath: string, targetDir: string) => [
+  'x',
+  '-y',
+  '-bso0',
+  '-bsp1',
+  `-o${targetDir}`,
+  '--',
+  archivePath,
+];
+
+/** Parses `unrar lt`, whose blocks start at `Name:` and name link targets in `Target:`. */
+const parseUnrarListing = (listing: string): ArchiveEntry[] =>
+  listing
+    .replace(/\r/g, '')
+    .split(/^(?=\s*Name: )/m)
+    .flatMap((block) => {
+      const fields = new Map(
+        Array.from(block.matchAll(/^\s*(.+?): (.*)$/gm), (match) => [match[1].trim(), match[2]]),
+      );
+      const entryPath = fields.get('Name');
+
+      if (!entryPath) {
+        return [];
+      }
+
+      const type = (fields.get('Type') ?? '').toLowerCase();
+      const target = fields.get('Target');
+      const isHardLink = type === 'hard link' || type === 'file reference';
+      const isLink = isHardLink || type.includes('link') || type.includes('junction');
+
+      if (isLink && !target) {
+        throw createUnsafeArchiveError(`O arquivo compactado contém um atalho sem destino: ${entryPath}`);
+      }
+
+      return [
+        {
+          path: entryPath,
+          size: Number(fields.get('Size')) || 0,
+          directory: type === 'directory',
+          symlinkTarget: isLink && !isHardLink ? target : undefined,
+          hardlinkTarget: isHardLink ? target : undefined,
+        },
+      ];
+    });
+
+const listWithUnrar = async (command: string, archivePath: string, signal?: AbortSignal) =>
+  parseUnrarListing(await readProcessOutput(command, ['lt', '--', archivePath], 'UnRAR', 'a listagem do arquivo', signal));
+
+const listWithSevenZip = async (command: string, archivePath: string, signal?: AbortSignal) =>
+  readStoredLinkTargets(
+    command,
+    archivePath,
+    parseSevenZipListing(
+      await readProcessOutput(command, ['l', '-slt', '-ba', '--', archivePath], '7-Zip', 'a listagem do arquivo', signal),
+    ),
+    signal,
+  );
+
+const WINDOWS_TOOLS: VolumeTool[] = ['ProgramFiles', 'ProgramFiles(x86)'].flatMap((variable) => {
+  const base = process.env[variable];
+  return base
+    ? [
+        { name: '7-Zip', command: path.join(base, '7-Zip', '7z.exe'), args: SEVEN_ZIP_ARGS, list: listWithSevenZip },
+        { name: 'UnRAR', command: path.join(base, 'WinRAR', 'UnRAR.exe'), args: UNRAR_ARGS, list: listWithUnrar },
+      ]
+    : [];
+});
+
+const PATH_TOOLS: VolumeTool[] = [
+  { name: 'UnRAR', command: 'unrar', args: UNRAR_ARGS, list: listWithUnrar },
+  { name: '7-Zip', command: '7z', args: SEVEN_ZIP_ARGS, list: listWithSevenZip },
+];
+
+const findOnPath = (command: string) =>
+  (process.env.PATH ?? '')
+    .split(path.delimiter)
+    .filter(Boolean)
+    .flatMap((dir) =>
+      process.platform === 'win32'
+        ? [path.join(dir, `${command}.exe`)]
+        : [path.join(dir, command)],
+    )
+    .find((candidate) => existsSync(candidate));
+
+const findVolumeTool = (): VolumeTool | undefined => {
+  const installed = WINDOWS_TOOLS.find((tool) => existsSync(tool.command));
+
+  if (installed) {
+    return installed;
+  }
+
+  for (const tool of PATH_TOOLS) {
+    const command = findOnPath(tool.command);
+    if (command) {
+      return { ...tool, command };
+    }
+  }
+
+  return undefined;
+};
+
+/** Every `.partN.rar` file of the set `archivePath` belongs to, in order; just the file itself otherwise. */
+export const listRarVolumes = async (archivePath: string) => {
+  const match = VOLUME_PATTERN.exec(path.basename(archivePath));
+
+  if (!match) {
+    return [archivePath];
+  }
+
+  const dir = path.dirname(archivePath);
+  const prefix = match[1].toLowerCase();
+  const names = await fs.readdir(dir).catch((): string[] => []);
+
+  const volumes = names
+    .map((name) => ({ name, match: VOLUME_PATTERN.exec(name) }))
+    .filter((entry) => entry.match && entry.match[1].toLowerCase() === prefix)
+    .sort((a, b) => Number(a.match?.[2]) - Number(b.match?.[2]))
+    .map((entry) => path.join(dir, entry.name));
+
+  return volumes.length > 0 ? volumes : [archivePath];
+};
+
+const requireVolumeTool = () => {
+  const tool = findVolumeTool();
+
+  if (!tool) {
+    throw new Error(
+      'Este jogo foi enviado como um RAR em várias partes. Instale o 7-Zip ou o WinRAR/UnRAR e tente extrair novamente.',
+    );
+  }
+
+  return tool;
+};
+
+/** Uncompressed size of the whole volume set, read from the system tool's listing. */
+export const measureRarVolumes = async (archivePath: string, signal?: AbortSignal) => {
+  const tool = requireVolumeTool();
+  return sumEntrySizes(await tool.list(tool.command, archivePath, signal));
+};
+
+/**
+ * The bundled unrar build cannot follow a volume set, so multi-part RAR
+ * archives go through an UnRAR or 7-Zip installed on the system.
+ */
+export const extractRarVolumes = async (archivePath: string, targetDir: string, options: ExtractOptions) => {
+  const { signal, bytesTotal, onProgress } = options;
+  const tool = requireVolumeTool();
+
+  // The system tool would follow links planted by earlier entries, so the whole listing is checked first.
+  assertSafeEntries(targetDir, await tool.list(tool.command, archivePath, signal));
+
+  const child = spawn(tool.command, tool.args(archivePath, targetDir), { windowsHide: true });
+
+  child.stdout.on('data', (chunk: Buffer) => {
+    const last = Array.from(chunk.toString().matchAll(/(\d{1,3})%/g)).pop();
+    if (last) {
+      onProgress?.({
+        entriesProcessed: 0,
+        entriesTotal: 0,
+        bytesProcessed: Math.round((Number(last[1]) / 100) * bytesTotal),
+        bytesTotal,
+      });
+    }
+  });
+
+  await runWithAbort([child], waitForProcess(child, tool.name, archivePath), signal);
+  onProgress?.({ entriesProcessed: 0, entriesTotal: 0, bytesProcessed: bytesTotal, bytesTotal });
+};
@@ -0,0 +1,285 @@
+import { path7za } from '7zip-bin';
+import { spawn } from 'node:child_process';
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import { Transform } from 'node:stream';
+
+import { ArchiveEntry, ArchiveExtractor, ArchiveFormat, ExtractOptions } from './types';
+import { assertSafeEntries, readProcessOutput, runWithAbort, sumEntrySizes, waitForProcess } from './utils';
+
+const STREAM_TYPES: Partial<Record<ArchiveFormat, string>> = {
+  'tar.gz': 'gzip',
+  'tar.xz': 'xz',
+};
+
+// Inside a packaged app the binary lives next to the asar, never inside it.
+const getBinaryPath = () => path7za.replace('app.asar', 'app.asar.unpacked');
+
+let binaryReady: Promise<void> | null = null;
+
+// npm does not always keep the executable bit of the bundled binary.
+const ensureBinaryExecutable = () => {
+  if (!binaryReady) {
+    binaryReady =
+      process.platform === 'win32'
+        ? Promise.resolve()
+        : fs.chmod(getBinaryPath(), 0o755).catch(() => undefined);
+  }
+  return binaryReady;
+};
+
+type ListedEntry = ArchiveEntry & {
+  /** 7z archives keep a symlink's target as the entry's content instead of in the listing. */
+  storedLink: boolean;
+};
+
+/** Parses `7z l -slt -ba` output, one `Key = value` block per entry. */
+export const parseSevenZipListing = (listing: string): ListedEntry[] =>
+  listing
+    .replace(/\r/g, '')
+    .split(/\n\n+/)
+    .flatMap((block) => {
+      const fields = new Map(Array.from(block.matchAll(/^(.+?) = (.*)$/gm), (match) => [match[1], match[2]]));
+      const entryPath = fields.get('Path');
+
+      if (!entryPath) {
+        return [];
+      }
+
+      const attributes = fields.get('Attributes') ?? '';
+      const symlinkTarget = fields.get('Symbolic Link') || undefined;
+
+      return [
+        {
+          path: entryPath,
+          size: Number(fields.get('Size')) || 0,
+          directory: fields.get('Folder') === '+' || attributes.startsWith('D'),
+          symlinkTarget,
+          hardlinkTarget: fields.get('Hard Link') || undefined,
+          storedLink: !symlinkTarget && /\sl[rwxsStT-]{9}$/.test(attributes),
+        },
+      ];
+    });
+
+/** Fills in the targets 7z archives store as content; `command` may be a system 7-Zip. */
+export const readStoredLinkTargets = async (
+  command: string,
+  archivePath: string,
+  entries: ListedEntry[],
+  signal?: AbortSignal,
+): Promise<ArchiveEntry[]> => {
+  const resolved: ArchiveEntry[] = [];
+
+  for (const { storedLink, ...entry } of entries) {
+    resolved.push(
+      storedLink
+        ? {
+            ...entry,
+            symlinkTarget: await readProcessOutput(
+              command,
+              ['e', '-so', '-spd', '-bsp0', '--', archivePath, entry.path],
+              '7-Zip',
+              entry.path,
+              signal,
+            ),
+          }
+        : entry,
+    );
+  }
+
+  return resolved;
+};
+
+// measure() and extract() run back to back on the same file; listing a compressed tarball means decompressing it.
+let cachedListing: { archivePath: string; size: number; mtimeMs: number; entries: ArchiveEntry[] } | null = null;
+
+/** A .tar.gz/.tar.xz is decompressed and the inner tarball listed, so link entries are visible too. */
+const listCompressedTar = async (archivePath: string, streamType: string, signal?: AbortSignal) => {
+  const decompress = spawn(getBinaryPath(), ['x', '-si', `-t${streamType}`, '-so', '-bsp0'], {
+    windowsHide: true,
+  });
+  const list = spawn(getBinaryPath(), ['l', '-slt', '-ba', '-si', '-ttar'], { windowsHide: true });
+  let listing = '';
+  list.stdout.setEncoding('utf-8');
+  list.stdout.on('data', (chunk: string) => {
+    listing += chunk;
+  });
+
+  const source = createReadStream(archivePath);
+  decompress.stdin.on('error', () => undefined);
+  list.stdin.on('error', () => undefined);
+  source.pipe(decompress.stdin);
+  decompress.stdout.pipe(list.stdin);
+
+  try {
+    await runWithAbort(
+      [decompress, list],
+      Promise.all([
+        waitForProcess(decompress, '7-Zip', 'a listagem do arquivo'),
+        waitForProcess(list, '7-Zip', 'a listagem do arquivo'),
+      ]),
+      signal,
+    );
+  } finally {
+    source.destroy();
+  }
+
+  return parseSevenZipListing(listing);
+};
+
+/** First bytes of the stream inside a gzip or xz file; the rest is never decompressed. */
+export const readDecompressedHeader = async (
+  archivePath: string,
+  format: ArchiveFormat,
+  length: number,
+): Promise<Buffer> => {
+  const streamType = STREAM_TYPES[format];
+
+  if (!streamType) {
+    throw new Error(`${format} não é um formato comprimido.`);
+  }
+
+  await ensureBinaryExecutable();
+
+  const child = spawn(getBinaryPath(), ['x', `-t${streamType}`, '-so', '-bsp0', '--', archivePath], {
+    windowsHide: true,
+  });
+  const chunks: Buffer[] = [];
+  let received = 0;
+
+  return new Promise<Buffer>((resolve, reject) => {
+    child.stdout.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      received += chunk.length;
+      if (received >= length) {
+        child.kill();
+      }
+    });
+    child.on('error', reject);
+    // A corrupt stream simply yields fewer bytes; the caller judges what came out.
+    child.on('close', () => resolve(Buffer.concat(chunks).subarray(0, length)));
+  });
+};
+
+const listArchive = async (archivePath: string, format: ArchiveFormat, signal?: AbortSignal) => {
+  await ensureBinaryExecutable();
+
+  const { size, mtimeMs } = await fs.stat(archivePath);
+
+  if (cachedListing?.archivePath === archivePath && cachedListing.size === size && cachedListing.mtimeMs === mtimeMs) {
+    return cachedListing.entries;
+  }
+
+  const streamType = STREAM_TYPES[format];
+  const listed = streamType
+    ? await listCompressedTar(archivePath, streamType, signal)
+    : parseSevenZipListing(
+        await readProcessOutput(getBinaryPath(), ['l', '-slt', '-ba', '--', archivePath], '7-Zip', 'a listagem do arquivo', signal),
+      );
+  const entries = await readStoredLinkTargets(getBinaryPath(), archivePath, listed, signal);
+
+  cachedListing = { archivePath, size, mtimeMs, entries };
+  return entries;
+};
+
+/** 7z and plain tar archives are seekable, so 7-Zip reads them directly and reports a percentage. */
+const extractDirect = async (archivePath: string, targetDir: string, options: ExtractOptions) => {
+  const { signal, bytesTotal, onProgress } = options;
+
+  const child = spawn(
+    getBinaryPath(),
+    ['x', '-y', '-bso0', '-bsp1', '-bb0', `-o${targetDir}`, '--', archivePath],
+    { windowsHide: true },
+  );
+
+  child.stdout.on('data', (chunk: Buffer) => {
+    const percents = Array.from(chunk.toString().matchAll(/(\d{1,3})%/g));
+    const last = percents.pop();
+    if (last) {
+      onProgress?.({
+        entriesProcessed: 0,
+        entriesTotal: 0,
+        bytesProcessed: Math.round((Number(last[1]) / 100) * bytesTotal),
+        bytesTotal,
+      });
+    }
+  });
+
+  await runWithAbort([child], waitForProcess(child, '7-Zip', archivePath), signal);
+  onProgress?.({ entriesProcessed: 0, entriesTotal: 0, bytesProcessed: bytesTotal, bytesTotal });
+};
+
+/**
+ * Compressed tarballs go through two 7-Zip processes (decompress, then untar)
+ * and progress follows how much of the compressed file has been read.
+ */
+const extractCompressedTar = async (
+  archivePath: string,
+  targetDir: string,
+  streamType: string,
+  options: ExtractOptions,
+) => {
+  const { signal, bytesTotal, onProgress } = options;
+  const { size: compressedSize } = await fs.stat(archivePath);
+
+  const decompress = spawn(getBinaryPath(), ['x', '-si', `-t${streamType}`, '-so', '-bsp0'], {
+    windowsHide: true,
+  });
+  const untar = spawn(
+    getBinaryPath(),
+    ['x', '-si', '-ttar', '-y', '-bso0', '-bsp0', `-o${targetDir}`],
+    { windowsHide: true },
+  );
+
+  let read = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      read += chunk.length;
+      onProgress?.({
+        entriesProcessed: 0,
+        entriesTotal: 0,
+        bytesProcessed: compressedSize ? Math.round((read / compressedSize) * bytesTotal) : 0,
+        bytesTotal,
+      });
+      callback(null, chunk);
+    },
+  });
+
+  const source = createReadStream(archivePath);
+  // Killing a process closes its pipe; swallow the resulting EPIPE and let the exit code speak.
+  decompress.stdin.on('error', () => undefined);
+  untar.stdin.on('error', () => undefined);
+  source.pipe(counter).pipe(decompress.stdin);
+  decompress.stdout.pipe(untar.stdin);
+
+  try {
+    await runWithAbort(
+      [decompress, untar],
+      Promise.all([
+        waitForProcess(decompress, '7-Zip', archivePath),
+        waitForProcess(untar, '7-Zip', archivePath),
+      ]),
+      signal,
+    );
+  } finally {
+    source.destroy();
+  }
+};
+
+export const sevenZipExtractor: ArchiveExtractor = {
+  formats: ['7z', 'tar', 'tar.gz', 'tar.xz'],
+  measure: async (archivePath, format, signal) => sumEntrySizes(await listArchive(archivePath, format, signal)),
+  extract: async (archivePath, targetDir, format, options) => {
+    // Checked in full before 7-Zip starts: once a link is on disk, later entries could be written through it.
+    assertSafeEntries(targetDir, await listArchive(archivePath, format, options.signal));
+    cachedListing = null;
+
+    const streamType = STREAM_TYPES[format];
+
+    if (streamType) {
+      await extractCompressedTar(archivePath, targetDir, streamType, options);
+    } else {
+      await extractDirect(archivePath, targetDir, options);
+    }
+  },
+};
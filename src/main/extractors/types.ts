@@ -0,0 +1,38 @@
+export type ArchiveFormat = 'zip' | '7z' | 'rar' | 'tar' | 'tar.gz' | 'tar.xz';
+
+export type ExtractionProgress = {
+  entriesProcessed: number;
+  /** 0 when the extractor cannot tell how many entries the archive has. */
+  entriesTotal: number;
+  bytesProcessed: number;
+  bytesTotal: number;
+};
+
+/** One entry of an archive listing, read before anything is written. */
+export type ArchiveEntry = {
+  path: string;
+  size: number;
+  directory: boolean;
+  symlinkTarget?: string;
+  /** Hard links name another entry of the archive, relative to its root. */
+  hardlinkTarget?: string;
+};
+
+export type ExtractOptions = {
+  signal?: AbortSignal;
+  /** Uncompressed size of the archive, used as the progress total. */
+  bytesTotal: number;
+  onProgress?: (progress: ExtractionProgress) => void;
+};
+
+export type ArchiveExtractor = {
+  formats: ArchiveFormat[];
+  /** Uncompressed size in bytes; throws when the archive cannot be listed. */
+  measure: (archivePath: string, format: ArchiveFormat, signal?: AbortSignal) => Promise<number>;
+  extract: (
+    archivePath: string,
+    targetDir: string,
+    format: ArchiveFormat,
+    options: ExtractOptions,
+  ) => Promise<void>;
+};
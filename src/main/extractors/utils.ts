@@ -0,0 +1,305 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { ArchiveEntry } from './types';
+
+// Game data rarely compresses past 10:1; far beyond that the archive is most likely a bomb.
+const MAX_COMPRESSION_RATIO = 100;
+const RATIO_CHECK_MIN_BYTES = 1024 ** 3;
+// Room for what listings leave out (tar padding, empty directories) before output counts as a lie.
+const OUTPUT_SLACK_BYTES = 64 * 1024 ** 2;
+const OUTPUT_CHECK_INTERVAL_MS = 5000;
+
+export const createAbortError = () => {
+  const error = new Error('Extração cancelada.');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const createUnsafeArchiveError = (message: string) => {
+  const error = new Error(message);
+  error.name = 'UnsafeArchiveError';
+  return error;
+};
+
+const isInside = (root: string, candidate: string, allowRoot = false) => {
+  const relative = path.relative(root, candidate);
+
+  if (!relative) {
+    return allowRoot;
+  }
+
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+// Archives made on Windows may use backslashes, which only Windows would treat as separators.
+const toPortablePath = (value: string) => value.replace(/\\/g, '/');
+
+const hasParentSegment = (value: string) => toPortablePath(value).split('/').includes('..');
+
+export const resolveEntryPath = (targetDir: string, fileName: string) => {
+  const destination = path.resolve(targetDir, toPortablePath(fileName));
+
+  if (!isInside(targetDir, destination) || /^[a-z]:/i.test(fileName)) {
+    throw createUnsafeArchiveError(`O arquivo compactado tenta gravar fora da pasta do jogo: ${fileName}`);
+  }
+
+  return destination;
+};
+
+export const assertSafeLinkTarget = (targetDir: string, linkPath: string, linkTarget: string) => {
+  const portable = toPortablePath(linkTarget);
+  const escapes =
+    !portable ||
+    path.isAbsolute(portable) ||
+    /^[a-z]:/i.test(portable) ||
+    !isInside(targetDir, path.resolve(path.dirname(linkPath), portable), true);
+
+  if (escapes) {
+    throw createUnsafeArchiveError(
+      `O arquivo compactado contém um atalho para fora da pasta do jogo: ${path.relative(targetDir, linkPath)}`,
+    );
+  }
+};
+
+/**
+ * Checks a whole listing before extraction: every path and link target has
+ * to stay in `targetDir`, and no entry may be written through a link of the
+ * same archive (a link to `.` would otherwise let `link/../x` climb out).
+ */
+export const assertSafeEntries = (targetDir: string, entries: ArchiveEntry[]) => {
+  const links = new Set<string>();
+  const destinations = entries.map((entry) => {
+    const destination = path.resolve(targetDir, toPortablePath(entry.path));
+
+    // Tarballs made with `tar -C dir .` list the root itself.
+    if (destination === path.resolve(targetDir) && entry.directory) {
+      return null;
+    }
+
+    // Extractors drop `..` on their own, which can turn `link/../x` into a write through `link`.
+    if (hasParentSegment(entry.path)) {
+      throw createUnsafeArchiveError(`O arquivo compactado tenta gravar fora da pasta do jogo: ${entry.path}`);
+    }
+
+    resolveEntryPath(targetDir, entry.path);
+
+    if (entry.symlinkTarget !== undefined) {
+      assertSafeLinkTarget(targetDir, destination, entry.symlinkTarget);
+      links.add(destination);
+    }
+
+    if (entry.hardlinkTarget !== undefined) {
+      if (!entry.hardlinkTarget || hasParentSegment(entry.hardlinkTarget)) {
+        throw createUnsafeArchiveError(
+          `O arquivo compactado contém um atalho para fora da pasta do jogo: ${entry.path}`,
+        );
+      }
+      resolveEntryPath(targetDir, entry.hardlinkTarget);
+    }
+
+    return destination;
+  });
+
+  destinations.forEach((destination, index) => {
+    if (!destination) {
+      return;
+    }
+
+    for (let parent = path.dirname(destination); isInside(targetDir, parent); parent = path.dirname(parent)) {
+      if (links.has(parent)) {
+        throw createUnsafeArchiveError(
+          `O arquivo compactado grava através de um atalho: ${entries[index].path}`,
+        );
+      }
+    }
+  });
+};
+
+export const sumEntrySizes = (entries: ArchiveEntry[]) =>
+  entries.reduce((sum, entry) => sum + (entry.directory ? 0 : entry.size), 0);
+
+/** Safety net for extractors that hand the work to another program: no link may leave `targetDir`. */
+export const assertNoEscapingLinks = async (targetDir: string, dir = targetDir): Promise<void> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isSymbolicLink()) {
+      assertSafeLinkTarget(targetDir, fullPath, await fs.readlink(fullPath));
+    } else if (entry.isDirectory()) {
+      await assertNoEscapingLinks(targetDir, fullPath);
+    }
+  }
+};
+
+export const assertSafeCompressionRatio = (packedBytes: number, unpackedBytes: number) => {
+  if (unpackedBytes < RATIO_CHECK_MIN_BYTES || packedBytes <= 0) {
+    return;
+  }
+
+  if (unpackedBytes / packedBytes > MAX_COMPRESSION_RATIO) {
+    throw createUnsafeArchiveError(
+      'O arquivo compactado declara um tamanho descompactado desproporcional e foi recusado por segurança.',
+    );
+  }
+};
+
+const measureWrittenBytes = async (dir: string, seen = new Set<string>()): Promise<number> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  let total = 0;
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      total += await measureWrittenBytes(fullPath, seen);
+      continue;
+    }
+
+    const stats = await fs.lstat(fullPath).catch(() => null);
+    // Hard links share their data; count it once.
+    const key = stats ? `${stats.dev}:${stats.ino}` : '';
+
+    if (stats && !seen.has(key)) {
+      seen.add(key);
+      total += stats.size;
+    }
+  }
+
+  return total;
+};
+
+/**
+ * Archive headers can lie about sizes, so while another program extracts
+ * the output is measured on disk. Past the declared size (or the ratio
+ * limit) `controller` is aborted and `finish` reports the archive as unsafe.
+ */
+export const watchExtractedBytes = (
+  targetDir: string,
+  packedBytes: number,
+  declaredBytes: number,
+  controller: AbortController,
+) => {
+  const limit = declaredBytes + Math.max(OUTPUT_SLACK_BYTES, declaredBytes * 0.05);
+  let exceeded: Error | null = null;
+  let checking = false;
+
+  const check = async () => {
+    const written = await measureWrittenBytes(targetDir);
+
+    try {
+      if (written > limit) {
+        throw createUnsafeArchiveError(
+          'O arquivo compactado gerou mais dados do que declarava e foi recusado por segurança.',
+        );
+      }
+      assertSafeCompressionRatio(packedBytes, written);
+    } catch (error) {
+      exceeded = error as Error;
+      controller.abort();
+    }
+  };
+
+  const timer = setInterval(() => {
+    if (checking || exceeded) {
+      return;
+    }
+    checking = true;
+    check().finally(() => {
+      checking = false;
+    });
+  }, OUTPUT_CHECK_INTERVAL_MS);
+
+  return {
+    /** Stops watching; with `verify` the finished output is measured one last time. */
+    finish: async (verify: boolean) => {
+      clearInterval(timer);
+
+      if (verify && !exceeded) {
+        await check();
+      }
+
+      if (exceeded) {
+        throw exceeded;
+      }
+    },
+  };
+};
+
+/** Remaining seconds based on the average rate since `startedAt`; undefined until there is enough data. */
+export const estimateRemainingSeconds = (startedAt: number, processed: number, total: number) => {
+  const elapsed = (Date.now() - startedAt) / 1000;
+
+  if (elapsed < 1 || processed <= 0 || total <= 0) {
+    return undefined;
+  }
+
+  const rate = processed / elapsed;
+  return Math.max(0, Math.round((total - processed) / rate));
+};
+
+export const waitForProcess = (child: ChildProcess, tool: string, label: string) =>
+  new Promise<void>((resolve, reject) => {
+    let stderr = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.once('error', (error) => reject(new Error(`Não foi possível executar o ${tool}: ${error.message}`)));
+    child.once('close', (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      const detail = stderr.trim().split('\n').pop();
+      reject(new Error(`Falha ao extrair ${label} (${tool} código ${code})${detail ? `: ${detail}` : ''}.`));
+    });
+  });
+
+/** Kills `children` when `signal` fires and turns the resulting failure into an AbortError. */
+export const runWithAbort = async (children: ChildProcess[], work: Promise<unknown>, signal?: AbortSignal) => {
+  const abort = () => children.forEach((child) => child.kill());
+
+  if (signal?.aborted) {
+    abort();
+    throw createAbortError();
+  }
+
+  signal?.addEventListener('abort', abort);
+
+  try {
+    await work;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+/** Runs a listing tool to completion and returns what it printed. */
+export const readProcessOutput = async (
+  command: string,
+  args: string[],
+  tool: string,
+  label: string,
+  signal?: AbortSignal,
+) => {
+  const child = spawn(command, args, { windowsHide: true });
+  let output = '';
+  child.stdout.setEncoding('utf-8');
+  child.stdout.on('data', (chunk: string) => {
+    output += chunk;
+  });
+
+  await runWithAbort([child], waitForProcess(child, tool, label), signal);
+  return output;
+};
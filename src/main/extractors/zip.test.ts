@@ -0,0 +1,118 @@
+import { existsSync, mkdtempSync, readFileSync, readlinkSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { crc32 } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { zipExtractor } from './zip';
+
+type ZipFixtureEntry = { name: string; content?: string; symlink?: boolean };
+
+// Stored (uncompressed) entries with Unix modes, which is all yauzl needs to see links.
+const writeZip = (filePath: string, entries: ZipFixtureEntry[]) => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.content ?? '');
+    const mode = entry.symlink ? 0o120777 : entry.name.endsWith('/') ? 0o040755 : 0o100644;
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(10, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(10, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((mode << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  writeFileSync(filePath, Buffer.concat([...locals, directory, end]));
+};
+
+// Fails the test instead of hanging it when extraction never settles.
+const withinTimeout = <T>(promise: Promise<T>, ms = 5000) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_resolve, reject) => setTimeout(() => reject(new Error('Extração travou')), ms)),
+  ]);
+
+describe('zipExtractor', () => {
+  let workDir: string;
+  let libraryDir: string;
+  let targetDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(path.join(os.tmpdir(), 'launcher-zip-'));
+    libraryDir = path.join(workDir, 'library');
+    targetDir = path.join(libraryDir, 'game');
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('extracts a zip whose first entry is a symlink', async () => {
+    const archivePath = path.join(workDir, 'link.zip');
+    writeZip(archivePath, [
+      { name: 'l', content: 'x', symlink: true },
+      { name: 'x', content: 'conteúdo' },
+    ]);
+
+    await withinTimeout(zipExtractor.extract(archivePath, targetDir, 'zip', { bytesTotal: 0 }));
+
+    expect(readlinkSync(path.join(targetDir, 'l'))).toBe('x');
+    expect(readFileSync(path.join(targetDir, 'l'), 'utf-8')).toBe('conteúdo');
+  });
+
+  it('rejects entries written through a chain of links before writing anything', async () => {
+    const archivePath = path.join(workDir, 'chain.zip');
+    writeZip(archivePath, [
+      { name: 'd/l2', content: '..', symlink: true },
+      { name: 'd/l2/l3', content: '..', symlink: true },
+      { name: 'd/l2/l3/pwned.txt', content: 'pwned' },
+    ]);
+
+    await expect(
+      withinTimeout(zipExtractor.extract(archivePath, targetDir, 'zip', { bytesTotal: 0 })),
+    ).rejects.toMatchObject({ name: 'UnsafeArchiveError' });
+
+    expect(existsSync(path.join(libraryDir, 'pwned.txt'))).toBe(false);
+    expect(existsSync(path.join(targetDir, 'd'))).toBe(false);
+  });
+
+  it('measures symlink entries without hanging', async () => {
+    const archivePath = path.join(workDir, 'measure.zip');
+    writeZip(archivePath, [
+      { name: 'l', content: 'x', symlink: true },
+      { name: 'x', content: '12345' },
+    ]);
+
+    await expect(withinTimeout(zipExtractor.measure(archivePath, 'zip'))).resolves.toBe(6);
+  });
+});
@@ -0,0 +1,190 @@
+import { createWriteStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import yauzl from 'yauzl';
+
+import { ArchiveEntry, ArchiveExtractor, ExtractionProgress, ExtractOptions } from './types';
+import { assertSafeEntries, createAbortError, resolveEntryPath, sumEntrySizes } from './utils';
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+const openZip = (zipPath: string) =>
+  new Promise<yauzl.ZipFile>((resolve, reject) => {
+    // Entries that inflate past their declared size fail, so the sizes `measure` sums can be trusted.
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false, validateEntrySizes: true }, (error, zipFile) => {
+      if (error || !zipFile) {
+        reject(new Error('Arquivo compactado inválido ou corrompido.'));
+        return;
+      }
+      resolve(zipFile);
+    });
+  });
+
+const openEntryStream = (zipFile: yauzl.ZipFile, entry: yauzl.Entry) =>
+  new Promise<Readable>((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error ?? new Error(`Não foi possível ler ${entry.fileName}.`));
+        return;
+      }
+      resolve(stream);
+    });
+  });
+
+// yauzl's entry streams never end under `for await`, so the data is collected through events.
+const readStreamToString = (stream: Readable) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.once('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    stream.once('error', reject);
+  });
+
+const getUnixMode = (entry: yauzl.Entry) => (entry.externalFileAttributes >>> 16) & 0xffff;
+
+const isSymlink = (entry: yauzl.Entry) => (getUnixMode(entry) & S_IFMT) === S_IFLNK;
+
+/** Resolves with the next entry, or null at the end of the central directory. */
+const createEntryReader = (zipFile: yauzl.ZipFile) => () =>
+  new Promise<yauzl.Entry | null>((resolve, reject) => {
+    const cleanup = () => {
+      zipFile.off('entry', handleEntry);
+      zipFile.off('end', handleEnd);
+      zipFile.off('error', handleError);
+    };
+    const handleEntry = (entry: yauzl.Entry) => {
+      cleanup();
+      resolve(entry);
+    };
+    const handleEnd = () => {
+      cleanup();
+      resolve(null);
+    };
+    const handleError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    zipFile.on('entry', handleEntry);
+    zipFile.on('end', handleEnd);
+    zipFile.on('error', handleError);
+    zipFile.readEntry();
+  });
+
+/** Central directory listing; symlink targets are the entry contents, so only those are read. */
+const listZipEntries = async (zipPath: string, signal?: AbortSignal) => {
+  const zipFile = await openZip(zipPath);
+  const nextEntry = createEntryReader(zipFile);
+  const entries: ArchiveEntry[] = [];
+
+  try {
+    for (let entry = await nextEntry(); entry; entry = await nextEntry()) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      entries.push({
+        path: entry.fileName,
+        size: entry.uncompressedSize,
+        directory: entry.fileName.endsWith('/'),
+        symlinkTarget: isSymlink(entry)
+          ? await readStreamToString(await openEntryStream(zipFile, entry))
+          : undefined,
+      });
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new Error('Arquivo compactado inválido ou corrompido.');
+  } finally {
+    zipFile.close();
+  }
+
+  return entries;
+};
+
+/**
+ * Checks the whole listing first, so no entry is written through a link made
+ * by an earlier one, then reads the zip one entry at a time so progress can be
+ * reported and the work aborted between chunks.
+ */
+const extractZipArchive = async (
+  zipPath: string,
+  targetDir: string,
+  { signal, bytesTotal, onProgress }: ExtractOptions,
+) => {
+  const entries = await listZipEntries(zipPath, signal);
+  assertSafeEntries(targetDir, entries);
+
+  const zipFile = await openZip(zipPath);
+  const nextEntry = createEntryReader(zipFile);
+  const progress: ExtractionProgress = {
+    entriesProcessed: 0,
+    entriesTotal: zipFile.entryCount,
+    bytesProcessed: 0,
+    bytesTotal,
+  };
+
+  try {
+    onProgress?.({ ...progress });
+
+    // Entries come back in the order they were listed, so the index finds the checked link target.
+    for (let entry = await nextEntry(), index = 0; entry; entry = await nextEntry(), index += 1) {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const destination = resolveEntryPath(targetDir, entry.fileName);
+      const unixMode = getUnixMode(entry);
+      const linkTarget = entries[index]?.symlinkTarget;
+
+      if (entry.fileName.endsWith('/')) {
+        await fs.mkdir(destination, { recursive: true });
+      } else if (isSymlink(entry) && linkTarget !== undefined) {
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+        await fs.symlink(linkTarget, destination);
+      } else {
+        await fs.mkdir(path.dirname(destination), { recursive: true });
+
+        const counter = new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            progress.bytesProcessed += chunk.length;
+            onProgress?.({ ...progress });
+            callback(null, chunk);
+          },
+        });
+        const mode = unixMode & 0o777;
+
+        try {
+          await pipeline(
+            await openEntryStream(zipFile, entry),
+            counter,
+            createWriteStream(destination, mode ? { mode } : undefined),
+            { signal },
+          );
+        } catch (error) {
+          if (signal?.aborted) {
+            throw createAbortError();
+          }
+          throw error;
+        }
+      }
+
+      progress.entriesProcessed += 1;
+      onProgress?.({ ...progress });
+    }
+  } finally {
+    zipFile.close();
+  }
+};
+
+export const zipExtractor: ArchiveExtractor = {
+  formats: ['zip'],
+  measure: async (archivePath, _format, signal) => sumEntrySizes(await listZipEntries(archivePath, signal)),
+  extract: (archivePath, targetDir, _format, options) =>
+    extractZipArchive(archivePath, targetDir, options),
+};
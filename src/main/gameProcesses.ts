@@ -0,0 +1,45 @@
+import { ChildProcess } from 'node:child_process';
+
+export type RunningGame = {
+  gameId: string;
+  pid?: number;
+  startedAt: string;
+};
+
+export type GameExit = RunningGame & {
+  endedAt: string;
+  durationSeconds: number;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+const running = new Map<string, RunningGame>();
+
+export const isGameRunning = (gameId: string) => running.has(gameId);
+
+export const listRunningGames = () => Array.from(running.values());
+
+/** Remembers `child` as the running session of `gameId` until it exits. */
+export const trackGameProcess = (
+  gameId: string,
+  child: ChildProcess,
+  onExit: (exit: GameExit) => void,
+): RunningGame => {
+  const session: RunningGame = { gameId, pid: child.pid, startedAt: new Date().toISOString() };
+  running.set(gameId, session);
+
+  child.once('exit', (exitCode, signal) => {
+    running.delete(gameId);
+    const endedAt = new Date();
+
+    onExit({
+      ...session,
+      endedAt: endedAt.toISOString(),
+      durationSeconds: Math.max(0, Math.round((endedAt.getTime() - Date.parse(session.startedAt)) / 1000)),
+      exitCode,
+      signal,
+    });
+  });
+
+  return session;
+};
@@ -0,0 +1,150 @@
+import { spawn } from 'node:child_process';
+import { createWriteStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { app } from 'electron';
+
+export type HookPhase = 'preLaunch' | 'postExit';
+
+export type GameHook = {
+  command: string;
+  args: string[];
+  timeoutSeconds: number;
+  /** Pre-launch only: a failing hook stops the game from starting. */
+  abortOnFailure: boolean;
+  /** Leave the program running (VPN, LAN emulator) instead of waiting for it to finish. */
+  background: boolean;
+};
+
+export type GameHooks = Partial<Record<HookPhase, GameHook>>;
+
+export type HookResult = {
+  success: boolean;
+  message?: string;
+  logPath: string;
+};
+
+type HookContext = {
+  gameId: string;
+  executablePath: string;
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+};
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const MAX_TIMEOUT_SECONDS = 60 * 60;
+
+const PHASE_LABELS: Record<HookPhase, string> = {
+  preLaunch: 'antes de iniciar',
+  postExit: 'após fechar',
+};
+
+const normalizeHook = (value: unknown): GameHook | undefined => {
+  const raw = (value ?? {}) as Partial<GameHook>;
+  const command = typeof raw.command === 'string' ? raw.command.trim() : '';
+
+  if (!command) {
+    return undefined;
+  }
+
+  const timeout = Number(raw.timeoutSeconds);
+
+  return {
+    command,
+    args: Array.isArray(raw.args) ? raw.args.filter((arg): arg is string => typeof arg === 'string') : [],
+    timeoutSeconds:
+      Number.isFinite(timeout) && timeout > 0
+        ? Math.min(Math.round(timeout), MAX_TIMEOUT_SECONDS)
+        : DEFAULT_TIMEOUT_SECONDS,
+    abortOnFailure: Boolean(raw.abortOnFailure),
+    background: Boolean(raw.background),
+  };
+};
+
+export const normalizeGameHooks = (value: unknown): GameHooks => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  return { preLaunch: normalizeHook(raw.preLaunch), postExit: normalizeHook(raw.postExit) };
+};
+
+export const getHookLogPath = (gameId: string) =>
+  path.join(app.getPath('userData'), 'logs', 'hooks', `${gameId.replace(/[^a-zA-Z0-9_-]/g, '_') || 'default'}.log`);
+
+/**
+ * Runs one hook with its output appended to the game's hook log. Resolves
+ * with the outcome instead of throwing so callers decide whether it matters.
+ */
+export const runHook = async (phase: HookPhase, hook: GameHook, context: HookContext): Promise<HookResult> => {
+  const logPath = getHookLogPath(context.gameId);
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+
+  const log = createWriteStream(logPath, { flags: 'a' });
+  // Bare names are looked up on PATH; anything with a separator is relative to the game folder.
+  const command = /[\\/]/.test(hook.command) ? path.resolve(context.cwd, hook.command) : hook.command;
+  const label = PHASE_LABELS[phase];
+  log.write(`[${new Date().toISOString()}] ${label}: ${[command, ...hook.args].join(' ')}\n`);
+
+  const finish = (result: Omit<HookResult, 'logPath'>) =>
+    new Promise<HookResult>((resolve) => {
+      // A killed process may still flush output; it must not reach a closed log.
+      child.stdout?.unpipe(log);
+      child.stderr?.unpipe(log);
+      log.end(`[${new Date().toISOString()}] ${result.success ? 'ok' : result.message}\n\n`, () =>
+        resolve({ ...result, logPath }),
+      );
+    });
+
+  const child = spawn(command, hook.args, {
+    cwd: context.cwd,
+    env: {
+      ...process.env,
+      ...context.env,
+      LAUNCHER_GAME_ID: context.gameId,
+      LAUNCHER_EXECUTABLE: context.executablePath,
+      LAUNCHER_HOOK_PHASE: phase,
+    },
+    // Batch files cannot be spawned without a shell on Windows.
+    shell: process.platform === 'win32' && /\.(bat|cmd)$/i.test(command),
+    detached: hook.background,
+    stdio: hook.background ? 'ignore' : ['ignore', 'pipe', 'pipe'],
+    windowsHide: true,
+  });
+
+  child.stdout?.pipe(log, { end: false });
+  child.stderr?.pipe(log, { end: false });
+
+  return new Promise<HookResult>((resolve) => {
+    let settled = false;
+    const settle = (result: Omit<HookResult, 'logPath'>) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        resolve(finish(result));
+      }
+    };
+
+    const timer = setTimeout(() => {
+      child.kill();
+      settle({ success: false, message: `O script ${label} excedeu ${hook.timeoutSeconds} s e foi encerrado.` });
+    }, hook.timeoutSeconds * 1000);
+
+    child.once('error', (error) => {
+      settle({ success: false, message: `Não foi possível executar o script ${label}: ${error.message}` });
+    });
+
+    if (hook.background) {
+      child.once('spawn', () => {
+        child.unref();
+        settle({ success: true });
+      });
+      return;
+    }
+
+    child.once('close', (code, signal) => {
+      settle(
+        code === 0
+          ? { success: true }
+          : { success: false, message: `O script ${label} falhou (${code === null ? signal : `código ${code}`}).` },
+      );
+    });
+  });
+};
@@ -0,0 +1,43 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+export const isSameOrInside = (parent: string, candidate: string) => {
+  const relative = path.relative(path.resolve(parent), path.resolve(candidate));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Symlinks are followed so a link inside the library cannot point the caller elsewhere.
+const toRealPath = (target: string) => fs.realpath(target).catch(() => path.resolve(target));
+
+/**
+ * Resolves a directory received from the renderer and rejects it unless it
+ * sits strictly inside one of the library folders (never the folder itself).
+ */
+export const resolveInsideLibrary = async (candidate: string, libraryFolders: string[]) => {
+  const resolved = await toRealPath(candidate);
+  const roots = await Promise.all(libraryFolders.map(toRealPath));
+
+  if (!roots.some((root) => path.relative(root, resolved) !== '' && isSameOrInside(root, resolved))) {
+    const error = new Error(`${resolved} não fica dentro de uma pasta da biblioteca.`);
+    error.name = 'UnsafePathError';
+    throw error;
+  }
+
+  return resolved;
+};
+
+/**
+ * Everything under a library folder can be deleted by an uninstall, so a drive
+ * root or a folder holding the home directory is never accepted as one.
+ */
+export const assertSafeLibraryFolder = async (folder: string) => {
+  const resolved = await toRealPath(folder);
+  const home = await toRealPath(os.homedir());
+
+  if (path.parse(resolved).root === resolved || isSameOrInside(resolved, home)) {
+    const error = new Error(`${folder} não pode ser usada como pasta da biblioteca; escolha uma subpasta.`);
+    error.name = 'UnsafePathError';
+    throw error;
+  }
+};
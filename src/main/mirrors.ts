@@ -0,0 +1,78 @@
+type SpeedSample = { timestamp: number; received: number };
+
+type SpeedMonitorOptions = {
+  /** Minimum acceptable average speed in bytes per second. */
+  minBytesPerSecond: number;
+  /** Time given to a mirror to ramp up before it can be judged. */
+  graceMs?: number;
+  /** Length of the sliding window the average speed is measured over. */
+  windowMs?: number;
+  onSlow: (bytesPerSecond: number) => void;
+};
+
+export type SpeedMonitor = {
+  record: (received: number) => void;
+  stop: () => void;
+};
+
+const CHECK_INTERVAL_MS = 5000;
+
+export const createSpeedMonitor = ({
+  minBytesPerSecond,
+  graceMs = 30_000,
+  windowMs = 20_000,
+  onSlow,
+}: SpeedMonitorOptions): SpeedMonitor => {
+  const startedAt = Date.now();
+  let samples: SpeedSample[] = [];
+  let latest: SpeedSample = { timestamp: startedAt, received: 0 };
+  let stopped = false;
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+
+    if (now - startedAt < graceMs) {
+      return;
+    }
+
+    samples = samples.filter((sample) => now - sample.timestamp <= windowMs);
+    const oldest = samples[0] ?? latest;
+    const elapsed = Math.max(now - oldest.timestamp, CHECK_INTERVAL_MS);
+    const speed = ((latest.received - oldest.received) / elapsed) * 1000;
+
+    if (speed < minBytesPerSecond) {
+      onSlow(speed);
+    }
+  }, CHECK_INTERVAL_MS);
+
+  const record = (received: number) => {
+    if (stopped) {
+      return;
+    }
+
+    latest = { timestamp: Date.now(), received };
+    samples.push(latest);
+  };
+
+  const stop = () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+
+  return { record, stop };
+};
+
+export const buildSourceList = (primaryUrl: string, mirrors?: string[]) => {
+  const seen = new Set<string>();
+
+  return [primaryUrl, ...(mirrors ?? [])]
+    .map((url) => url.trim())
+    .filter((url) => {
+      if (!url || seen.has(url)) {
+        return false;
+      }
+
+      seen.add(url);
+      return true;
+    });
+};
@@ -0,0 +1,150 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+import { hashFile } from './checksum';
+
+export type InstallationEntry = {
+  relativePath: string;
+  kind: 'directory' | 'file' | 'symlink';
+  size: number;
+  mode: number;
+};
+
+export type MoveProgress = {
+  phase: 'copying' | 'verifying';
+  processed: number;
+  total: number;
+};
+
+const createAbortError = () => {
+  const error = new Error('Movimentação cancelada.');
+  error.name = 'AbortError';
+  return error;
+};
+
+const createVerificationError = (relativePath: string) => {
+  const error = new Error(`A cópia de ${relativePath} não confere com o original.`);
+  error.name = 'MoveVerificationError';
+  return error;
+};
+
+export const listInstallationEntries = async (rootDir: string) => {
+  const entries: InstallationEntry[] = [];
+
+  const walk = async (dir: string) => {
+    const children = await fs.readdir(dir, { withFileTypes: true });
+
+    for (const child of children) {
+      const fullPath = path.join(dir, child.name);
+      const relativePath = path.relative(rootDir, fullPath);
+      const stats = await fs.lstat(fullPath);
+
+      if (child.isSymbolicLink()) {
+        entries.push({ relativePath, kind: 'symlink', size: 0, mode: stats.mode });
+      } else if (child.isDirectory()) {
+        entries.push({ relativePath, kind: 'directory', size: 0, mode: stats.mode });
+        await walk(fullPath);
+      } else if (child.isFile()) {
+        entries.push({ relativePath, kind: 'file', size: stats.size, mode: stats.mode });
+      }
+    }
+  };
+
+  await walk(rootDir);
+  return entries;
+};
+
+/**
+ * Copies every entry into `targetDir`, hashing the bytes as they are read, then
+ * re-reads the copies and compares size and SHA-256 before reporting success.
+ */
+export const copyInstallation = async (
+  entries: InstallationEntry[],
+  sourceDir: string,
+  targetDir: string,
+  options: { signal?: AbortSignal; onProgress?: (progress: MoveProgress) => void },
+) => {
+  const { signal, onProgress } = options;
+  const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const sourceHashes = new Map<string, string>();
+  let processed = 0;
+
+  const throwIfAborted = () => {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+  };
+
+  for (const entry of entries) {
+    throwIfAborted();
+
+    const sourcePath = path.join(sourceDir, entry.relativePath);
+    const targetPath = path.join(targetDir, entry.relativePath);
+
+    if (entry.kind === 'directory') {
+      await fs.mkdir(targetPath, { recursive: true });
+      continue;
+    }
+
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+
+    if (entry.kind === 'symlink') {
+      await fs.symlink(await fs.readlink(sourcePath), targetPath);
+      continue;
+    }
+
+    const hash = createHash('sha256');
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        processed += chunk.length;
+        onProgress?.({ phase: 'copying', processed, total });
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(createReadStream(sourcePath), counter, createWriteStream(targetPath), { signal });
+    } catch (error) {
+      throwIfAborted();
+      throw error;
+    }
+
+    // Keep the executable bit on Linux/macOS launchers and scripts.
+    await fs.chmod(targetPath, entry.mode & 0o7777);
+    sourceHashes.set(entry.relativePath, hash.digest('hex'));
+  }
+
+  let verified = 0;
+  onProgress?.({ phase: 'verifying', processed: 0, total });
+
+  for (const entry of entries) {
+    if (entry.kind !== 'file') {
+      continue;
+    }
+
+    const targetPath = path.join(targetDir, entry.relativePath);
+    const stats = await fs.stat(targetPath);
+
+    if (stats.size !== entry.size) {
+      throw createVerificationError(entry.relativePath);
+    }
+
+    const base = verified;
+    const digest = await hashFile(
+      targetPath,
+      (done) => onProgress?.({ phase: 'verifying', processed: base + done, total }),
+      signal,
+    );
+
+    if (digest !== sourceHashes.get(entry.relativePath)) {
+      throw createVerificationError(entry.relativePath);
+    }
+
+    verified += entry.size;
+  }
+};
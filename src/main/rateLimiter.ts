@@ -0,0 +1,84 @@
+type PendingWait = {
+  timer: ReturnType<typeof setTimeout>;
+  resolve: () => void;
+};
+
+export type RateLimiter = {
+  consume: (bytes: number, signal?: AbortSignal) => Promise<void>;
+  refresh: () => void;
+};
+
+/**
+ * Spreads byte consumption over time so the combined throughput of every caller
+ * sharing the limiter stays under `getRate()` bytes per second (0 = unlimited).
+ */
+export const createRateLimiter = (getRate: () => number): RateLimiter => {
+  let nextFreeAt = 0;
+  const pending = new Set<PendingWait>();
+
+  const wait = (delay: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve) => {
+      if (delay <= 0 || signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const entry: PendingWait = {
+        timer: setTimeout(() => finish(), delay),
+        resolve: () => finish(),
+      };
+
+      const finish = () => {
+        clearTimeout(entry.timer);
+        pending.delete(entry);
+        signal?.removeEventListener('abort', finish);
+        resolve();
+      };
+
+      pending.add(entry);
+      signal?.addEventListener('abort', finish);
+    });
+
+  const consume = async (bytes: number, signal?: AbortSignal) => {
+    const rate = getRate();
+
+    if (!rate || rate <= 0 || bytes <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const start = Math.max(now, nextFreeAt);
+    nextFreeAt = start + (bytes / rate) * 1000;
+
+    await wait(start - now, signal);
+  };
+
+  // Called when the rate changes so callers do not keep sleeping on the old schedule.
+  const refresh = () => {
+    nextFreeAt = 0;
+    Array.from(pending).forEach((entry) => entry.resolve());
+  };
+
+  return { consume, refresh };
+};
+
+const toMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinTimeWindow = (date: Date, start: string, end: string) => {
+  const current = date.getHours() * 60 + date.getMinutes();
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+
+  if (startMinutes === endMinutes) {
+    return false;
+  }
+
+  if (startMinutes < endMinutes) {
+    return current >= startMinutes && current < endMinutes;
+  }
+
+  return current >= startMinutes || current < endMinutes;
+};
@@ -0,0 +1,19 @@
+import { DownloadHostResolver } from './types';
+import { getFileNameFromUrl } from './utils';
+
+export const dropboxResolver: DownloadHostResolver = {
+  id: 'dropbox',
+  label: 'Dropbox',
+  hosts: ['dropbox.com', 'dropboxusercontent.com'],
+  resolve: async (url) => {
+    const direct = new URL(url.toString());
+
+    if (!direct.hostname.toLowerCase().endsWith('dropboxusercontent.com')) {
+      // Shared links open a preview page unless dl=1 is set.
+      direct.searchParams.delete('raw');
+      direct.searchParams.set('dl', '1');
+    }
+
+    return { url: direct.toString(), fileName: getFileNameFromUrl(direct) };
+  },
+};
@@ -0,0 +1,14 @@
+import { DownloadHostResolver } from './types';
+import { getFileNameFromUrl } from './utils';
+
+export const githubReleaseResolver: DownloadHostResolver = {
+  id: 'github',
+  label: 'GitHub Releases',
+  hosts: ['github.com'],
+  pathPattern: '^/[^/]+/[^/]+/releases/(?:latest/)?download/',
+  resolve: async (url) => ({
+    url: url.toString(),
+    headers: { Accept: 'application/octet-stream' },
+    fileName: getFileNameFromUrl(url),
+  }),
+};
@@ -0,0 +1,97 @@
+import { DownloadHostResolver, ResolvedDownload } from './types';
+import { decodeHtmlEntities, isHtmlResponse } from './utils';
+
+/**
+ * Files above Drive's virus-scan limit answer with an HTML warning page instead
+ * of the file; the real download sits behind the page's form or confirm link.
+ */
+const findDriveConfirmUrl = (html: string, baseUrl: string, fileId: string, cookieToken?: string) => {
+  const formMatch = html.match(/<form[^>]+id="download-form"[^>]*>([\s\S]*?)<\/form>/i);
+
+  if (formMatch) {
+    const actionMatch = formMatch[0].match(/action="([^"]+)"/i);
+    const target = new URL(decodeHtmlEntities(actionMatch?.[1] ?? '/uc'), baseUrl);
+    const inputPattern = /<input[^>]+type="hidden"[^>]*>/gi;
+
+    for (const input of formMatch[1].match(inputPattern) ?? []) {
+      const name = input.match(/name="([^"]+)"/i)?.[1];
+      const value = input.match(/value="([^"]*)"/i)?.[1];
+      if (name) {
+        target.searchParams.set(name, decodeHtmlEntities(value ?? ''));
+      }
+    }
+
+    return target.toString();
+  }
+
+  const linkMatch = html.match(/href="(\/uc\?export=download[^"]*confirm=[^"]+)"/i);
+
+  if (linkMatch) {
+    return new URL(decodeHtmlEntities(linkMatch[1]), baseUrl).toString();
+  }
+
+  const token = html.match(/confirm=([0-9A-Za-z_-]+)/)?.[1] ?? cookieToken;
+
+  if (token) {
+    return `https://drive.google.com/uc?export=download&confirm=${token}&id=${fileId}`;
+  }
+
+  return null;
+};
+
+const getDriveFileId = (url: URL) =>
+  url.pathname.match(/\/file\/d\/([^/]+)/)?.[1] ?? url.searchParams.get('id') ?? undefined;
+
+const resolveDriveFile = async (url: URL): Promise<ResolvedDownload> => {
+  const fileId = getDriveFileId(url);
+
+  if (!fileId) {
+    return { url: url.toString() };
+  }
+
+  const initialUrl = `https://drive.google.com/uc?export=download&id=${fileId}`;
+  const response = await fetch(initialUrl, { redirect: 'follow' });
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error('Não foi possível acessar o link do Google Drive.');
+  }
+
+  if (!isHtmlResponse(response)) {
+    await response.body?.cancel();
+    return { url: response.url || initialUrl };
+  }
+
+  const html = await response.text();
+  const cookieToken = response.headers
+    .get('set-cookie')
+    ?.match(/download_warning[^=]*=([^;]+)/)?.[1];
+  const confirmUrl = findDriveConfirmUrl(html, response.url || initialUrl, fileId, cookieToken);
+
+  if (!confirmUrl) {
+    if (/quota|cota/i.test(html)) {
+      throw new Error('O arquivo do Google Drive excedeu a cota de downloads. Tente novamente mais tarde.');
+    }
+
+    throw new Error('O Google Drive não liberou o download. Verifique se o arquivo está compartilhado publicamente.');
+  }
+
+  const confirmed = await fetch(confirmUrl, { redirect: 'follow' });
+  await confirmed.body?.cancel();
+
+  if (!confirmed.ok || isHtmlResponse(confirmed)) {
+    throw new Error('O Google Drive retornou uma página em vez do arquivo. Tente novamente mais tarde.');
+  }
+
+  return { url: confirmed.url || confirmUrl };
+};
+
+export const googleDriveResolver: DownloadHostResolver = {
+  id: 'google-drive',
+  label: 'Google Drive',
+  hosts: ['drive.google.com', 'drive.usercontent.google.com', 'googleusercontent.com'],
+  resolve: async (url) =>
+    url.hostname.toLowerCase() === 'drive.google.com'
+      ? resolveDriveFile(url)
+      : { url: url.toString() },
+};
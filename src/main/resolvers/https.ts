@@ -0,0 +1,9 @@
+import { DownloadHostResolver } from './types';
+import { getFileNameFromUrl } from './utils';
+
+export const httpsResolver: DownloadHostResolver = {
+  id: 'https',
+  label: 'Link HTTPS direto',
+  hosts: ['*'],
+  resolve: async (url) => ({ url: url.toString(), fileName: getFileNameFromUrl(url) }),
+};
@@ -0,0 +1,63 @@
+import { dropboxResolver } from './dropbox';
+import { githubReleaseResolver } from './github';
+import { googleDriveResolver } from './googleDrive';
+import { httpsResolver } from './https';
+import { mediafireResolver } from './mediafire';
+import { onedriveResolver } from './onedrive';
+import { DownloadHostDescriptor, DownloadHostResolver, ResolvedDownload } from './types';
+
+export type { DownloadHostDescriptor, ResolvedDownload } from './types';
+
+// Order matters: the first resolver that matches wins, so the catch-all stays last.
+const resolvers: DownloadHostResolver[] = [
+  googleDriveResolver,
+  mediafireResolver,
+  dropboxResolver,
+  onedriveResolver,
+  githubReleaseResolver,
+  httpsResolver,
+];
+
+const matchesHost = (hostname: string, host: string) =>
+  host === '*' || hostname === host || hostname.endsWith(`.${host}`);
+
+const matchesDescriptor = (descriptor: DownloadHostDescriptor, url: URL) => {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+
+  if (descriptor.hosts.includes('*') && url.protocol !== 'https:') {
+    return false;
+  }
+
+  return (
+    descriptor.hosts.some((host) => matchesHost(hostname, host)) &&
+    (!descriptor.pathPattern || new RegExp(descriptor.pathPattern).test(url.pathname))
+  );
+};
+
+export const findDownloadResolver = (url: URL) =>
+  resolvers.find((resolver) => matchesDescriptor(resolver, url));
+
+export const listDownloadHosts = (): DownloadHostDescriptor[] =>
+  resolvers.map(({ id, label, hosts, pathPattern }) => ({ id, label, hosts, pathPattern }));
+
+export const resolveDownload = async (rawUrl: string): Promise<ResolvedDownload> => {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(rawUrl);
+  } catch (error) {
+    throw new Error('URL inválida.');
+  }
+
+  const resolver = findDownloadResolver(parsed);
+
+  if (!resolver) {
+    throw new Error(`Links de ${parsed.hostname || parsed.protocol} não são suportados.`);
+  }
+
+  return resolver.resolve(parsed);
+};
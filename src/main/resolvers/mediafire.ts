@@ -0,0 +1,30 @@
+import { DownloadHostResolver } from './types';
+import { decodeHtmlEntities, getFileNameFromUrl } from './utils';
+
+export const mediafireResolver: DownloadHostResolver = {
+  id: 'mediafire',
+  label: 'MediaFire',
+  hosts: ['mediafire.com'],
+  resolve: async (url) => {
+    // download*.mediafire.com links already point at the file.
+    if (url.hostname.toLowerCase().startsWith('download')) {
+      return { url: url.toString(), fileName: getFileNameFromUrl(url) };
+    }
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error('Não foi possível acessar o link do MediaFire.');
+    }
+
+    const html = await response.text();
+    const match = html.match(/href="(https?:\/\/download[^"']+)"/i);
+
+    if (!match?.[1]) {
+      throw new Error('Não foi possível localizar o link direto do MediaFire.');
+    }
+
+    const directUrl = new URL(decodeHtmlEntities(match[1]));
+    return { url: directUrl.toString(), fileName: getFileNameFromUrl(directUrl) };
+  },
+};
@@ -0,0 +1,24 @@
+import { DownloadHostResolver } from './types';
+
+const encodeShareUrl = (url: string) =>
+  `u!${Buffer.from(url).toString('base64').replace(/=+$/, '').replace(/\//g, '_').replace(/\+/g, '-')}`;
+
+export const onedriveResolver: DownloadHostResolver = {
+  id: 'onedrive',
+  label: 'OneDrive',
+  hosts: ['1drv.ms', 'onedrive.live.com', 'sharepoint.com'],
+  resolve: async (url) => {
+    const host = url.hostname.toLowerCase();
+
+    if (host.endsWith('sharepoint.com')) {
+      const direct = new URL(url.toString());
+      direct.searchParams.set('download', '1');
+      return { url: direct.toString() };
+    }
+
+    // Personal share links are turned into a direct link through the shares API.
+    return {
+      url: `https://api.onedrive.com/v1.0/shares/${encodeShareUrl(url.toString())}/root/content`,
+    };
+  },
+};
@@ -0,0 +1,19 @@
+export type ResolvedDownload = {
+  url: string;
+  headers?: Record<string, string>;
+  fileName?: string;
+};
+
+/** Serializable description of the URLs a resolver accepts, shared with the renderer. */
+export type DownloadHostDescriptor = {
+  id: string;
+  label: string;
+  /** Host names matched exactly or as a parent domain; `*` accepts any HTTPS host. */
+  hosts: string[];
+  /** Optional regular expression (source) the URL path must match. */
+  pathPattern?: string;
+};
+
+export type DownloadHostResolver = DownloadHostDescriptor & {
+  resolve: (url: URL) => Promise<ResolvedDownload>;
+};
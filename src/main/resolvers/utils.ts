@@ -0,0 +1,23 @@
+export const isHtmlResponse = (response: Response) =>
+  (response.headers.get('content-type') ?? '').toLowerCase().includes('text/html');
+
+export const decodeHtmlEntities = (value: string) =>
+  value
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x3D;/gi, '=');
+
+export const getFileNameFromUrl = (url: URL) => {
+  const segment = url.pathname.split('/').filter(Boolean).pop();
+
+  if (!segment) {
+    return undefined;
+  }
+
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
@@ -0,0 +1,28 @@
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed and the
+ * other half random, so parallel workers do not hammer the host in lockstep.
+ */
+export const getRetryDelay = (attempt: number) => {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0));
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+export const waitFor = (delay: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (delay <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', finish);
+      resolve();
+    };
+
+    const timer = setTimeout(finish, delay);
+    signal?.addEventListener('abort', finish);
+  });
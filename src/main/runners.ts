@@ -0,0 +1,321 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { constants as fsConstants, existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { app, shell } from 'electron';
+
+export type RunnerKind = 'auto' | 'native' | 'wine' | 'proton';
+
+export type GameRunner = {
+  kind: RunnerKind;
+  /** Wine binary or Proton's `proton` script; detected when empty. */
+  binaryPath?: string;
+  /** WINEPREFIX / STEAM_COMPAT_DATA_PATH; defaults to a folder per game under userData. */
+  prefixPath?: string;
+};
+
+export type RunnerInstallation = {
+  kind: 'wine' | 'proton';
+  name: string;
+  path: string;
+};
+
+/** What a launch profile adds on top of the executable. */
+export type LaunchOptions = {
+  args: string[];
+  /** Absolute, or relative to the executable's folder. */
+  cwd?: string;
+  env: Record<string, string>;
+};
+
+export type LaunchCommand = {
+  kind: Exclude<RunnerKind, 'auto'>;
+  command: string;
+  args: string[];
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+};
+
+const RUNNER_KINDS: RunnerKind[] = ['auto', 'native', 'wine', 'proton'];
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ELF_MAGIC = Buffer.from([0x7f, 0x45, 0x4c, 0x46]);
+const SCRIPT_EXTENSIONS = ['.sh'];
+const NATIVE_EXTENSIONS = ['.sh', '.appimage'];
+
+const createRunnerError = (message: string) => {
+  const error = new Error(message);
+  error.name = 'RunnerError';
+  return error;
+};
+
+export const isWindowsExecutable = (filePath: string) => path.extname(filePath).toLowerCase() === '.exe';
+
+const hasElfHeader = async (filePath: string) => {
+  const handle = await fs.open(filePath, 'r').catch(() => null);
+
+  if (!handle) {
+    return false;
+  }
+
+  try {
+    const header = Buffer.alloc(4);
+    const { bytesRead } = await handle.read(header, 0, 4, 0);
+    return bytesRead === 4 && header.equals(ELF_MAGIC);
+  } finally {
+    await handle.close();
+  }
+};
+
+/** ELF binaries, shell scripts and AppImages; only `.exe` counts as native on Windows. */
+export const isNativeExecutable = async (filePath: string) => {
+  if (process.platform === 'win32') {
+    return isWindowsExecutable(filePath);
+  }
+
+  return NATIVE_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) || hasElfHeader(filePath);
+};
+
+export const normalizeGameRunner = (value: unknown): GameRunner => {
+  const raw = (value ?? {}) as Partial<GameRunner>;
+  const kind = RUNNER_KINDS.includes(raw.kind as RunnerKind) ? (raw.kind as RunnerKind) : 'auto';
+  const binaryPath = typeof raw.binaryPath === 'string' ? raw.binaryPath.trim() : '';
+  const prefixPath = typeof raw.prefixPath === 'string' ? raw.prefixPath.trim() : '';
+
+  return {
+    kind,
+    binaryPath: binaryPath ? path.normalize(binaryPath) : undefined,
+    prefixPath: prefixPath && path.isAbsolute(prefixPath) ? path.resolve(prefixPath) : undefined,
+  };
+};
+
+export const normalizeLaunchOptions = (value: unknown): LaunchOptions => {
+  const raw = (value ?? {}) as Partial<LaunchOptions>;
+  const args = Array.isArray(raw.args) ? raw.args.filter((arg): arg is string => typeof arg === 'string') : [];
+  const cwd = typeof raw.cwd === 'string' ? raw.cwd.trim() : '';
+  const env = Object.fromEntries(
+    Object.entries(raw.env && typeof raw.env === 'object' ? raw.env : {}).filter(
+      (entry): entry is [string, string] => ENV_NAME_PATTERN.test(entry[0]) && typeof entry[1] === 'string',
+    ),
+  );
+
+  return { args, cwd: cwd || undefined, env };
+};
+
+const resolveWorkingDirectory = async (filePath: string, cwd?: string) => {
+  const directory = cwd ? path.resolve(path.dirname(filePath), cwd) : path.dirname(filePath);
+  const stats = await fs.stat(directory).catch(() => null);
+
+  if (!stats?.isDirectory()) {
+    throw createRunnerError(`Pasta de trabalho não encontrada: ${directory}`);
+  }
+
+  return directory;
+};
+
+export const getDefaultPrefixPath = (gameId: string) =>
+  path.join(app.getPath('userData'), 'prefixes', gameId.replace(/[^a-zA-Z0-9_-]/g, '_') || 'default');
+
+const findOnPath = (command: string) =>
+  (process.env.PATH ?? '')
+    .split(path.delimiter)
+    .filter(Boolean)
+    .map((dir) => path.join(dir, command))
+    .find((candidate) => existsSync(candidate));
+
+const getSteamRoots = () => {
+  const home = os.homedir();
+  return [
+    path.join(home, '.steam', 'root'),
+    path.join(home, '.steam', 'steam'),
+    path.join(home, '.local', 'share', 'Steam'),
+    path.join(home, '.var', 'app', 'com.valvesoftware.Steam', 'data', 'Steam'),
+  ].filter((root) => existsSync(root));
+};
+
+const listProtonIn = async (dir: string): Promise<RunnerInstallation[]> => {
+  const names = await fs.readdir(dir).catch((): string[] => []);
+
+  return names
+    .map((name) => ({ kind: 'proton' as const, name, path: path.join(dir, name, 'proton') }))
+    .filter((runner) => existsSync(runner.path));
+};
+
+/** Wine on PATH plus every Proton build found in the usual Steam folders. */
+export const listRunners = async (): Promise<RunnerInstallation[]> => {
+  if (process.platform === 'win32') {
+    return [];
+  }
+
+  const runners: RunnerInstallation[] = ['wine', 'wine64'].flatMap((command) => {
+    const found = findOnPath(command);
+    return found ? [{ kind: 'wine' as const, name: command, path: found }] : [];
+  });
+
+  for (const root of getSteamRoots()) {
+    runners.push(
+      ...(await listProtonIn(path.join(root, 'steamapps', 'common'))),
+      ...(await listProtonIn(path.join(root, 'compatibilitytools.d'))),
+    );
+  }
+
+  // ~/.steam/root and ~/.steam/steam are usually links to the same install.
+  const seen = new Set<string>();
+  const unique: RunnerInstallation[] = [];
+
+  for (const runner of runners) {
+    const real = await fs.realpath(runner.path).catch(() => runner.path);
+    if (!seen.has(real)) {
+      seen.add(real);
+      unique.push(runner);
+    }
+  }
+
+  return unique;
+};
+
+const resolveKind = (filePath: string, runner: GameRunner): LaunchCommand['kind'] => {
+  if (runner.kind !== 'auto') {
+    return runner.kind;
+  }
+
+  if (process.platform === 'win32' || !isWindowsExecutable(filePath)) {
+    return 'native';
+  }
+
+  return 'wine';
+};
+
+const resolveRunnerBinary = async (kind: 'wine' | 'proton', runner: GameRunner) => {
+  if (runner.binaryPath) {
+    if (!existsSync(runner.binaryPath)) {
+      throw createRunnerError(`Executor não encontrado em ${runner.binaryPath}.`);
+    }
+    return runner.binaryPath;
+  }
+
+  const detected = (await listRunners()).find((installation) => installation.kind === kind);
+
+  if (!detected) {
+    throw createRunnerError(
+      kind === 'wine'
+        ? 'Wine não encontrado. Instale o Wine ou informe o caminho do binário nas configurações do jogo.'
+        : 'Nenhuma versão do Proton encontrada. Informe o caminho do script "proton" nas configurações do jogo.',
+    );
+  }
+
+  return detected.path;
+};
+
+/** Works out what to spawn for `filePath`, creating the prefix folder when a compatibility layer is used. */
+export const buildLaunchCommand = async (
+  filePath: string,
+  runner: GameRunner,
+  gameId?: string,
+  options: LaunchOptions = { args: [], env: {} },
+): Promise<LaunchCommand> => {
+  const kind = resolveKind(filePath, runner);
+  const cwd = await resolveWorkingDirectory(filePath, options.cwd);
+  const env = { ...process.env, ...options.env };
+
+  if (kind === 'native') {
+    const executable = await fs
+      .access(filePath, fsConstants.X_OK)
+      .then(() => true)
+      .catch(() => false);
+
+    if (!executable && SCRIPT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+      return { kind, command: '/bin/sh', args: [filePath, ...options.args], cwd, env };
+    }
+
+    // Archives do not always keep the executable bit of the binaries they carry.
+    if (!executable && process.platform !== 'win32') {
+      await fs.chmod(filePath, 0o755).catch(() => undefined);
+    }
+
+    return { kind, command: filePath, args: options.args, cwd, env };
+  }
+
+  if (process.platform === 'win32') {
+    throw createRunnerError('Wine e Proton só estão disponíveis no Linux.');
+  }
+
+  const binary = await resolveRunnerBinary(kind, runner);
+  const prefixPath = runner.prefixPath ?? getDefaultPrefixPath(gameId ?? path.basename(path.dirname(filePath)));
+  await fs.mkdir(prefixPath, { recursive: true });
+
+  if (kind === 'wine') {
+    return { kind, command: binary, args: [filePath, ...options.args], cwd, env: { ...env, WINEPREFIX: prefixPath } };
+  }
+
+  // Outside Steam, Proton still wants to know where a Steam client lives; the prefix works as a stand-in.
+  const [steamRoot] = getSteamRoots();
+
+  return {
+    kind,
+    command: binary,
+    args: ['run', filePath, ...options.args],
+    cwd,
+    env: {
+      ...env,
+      STEAM_COMPAT_DATA_PATH: prefixPath,
+      STEAM_COMPAT_CLIENT_INSTALL_PATH: steamRoot ?? prefixPath,
+    },
+  };
+};
+
+const openUntracked = async (filePath: string) => {
+  const result = await shell.openPath(filePath);
+  if (result) {
+    throw createRunnerError(result);
+  }
+  return null;
+};
+
+/**
+ * Starts the game detached from the launcher and resolves with its process
+ * once it has actually started. Resolves with `null` when Windows had to open
+ * the file through the shell (e.g. it asks for elevation) and it cannot be tracked.
+ */
+export const launchExecutable = async (
+  filePath: string,
+  runner: GameRunner,
+  gameId?: string,
+  options?: LaunchOptions,
+): Promise<ChildProcess | null> => {
+  const launch = await buildLaunchCommand(filePath, runner, gameId, options);
+
+  const child = spawn(launch.command, launch.args, {
+    cwd: launch.cwd,
+    env: launch.env,
+    detached: true,
+    stdio: 'ignore',
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+  } catch (error) {
+    const { code } = error as NodeJS.ErrnoException;
+
+    // The shell cannot pass arguments or environment, so only plain launches fall back to it.
+    if (
+      launch.kind === 'native' &&
+      process.platform === 'win32' &&
+      code !== 'ENOENT' &&
+      launch.args.length === 0 &&
+      Object.keys(options?.env ?? {}).length === 0
+    ) {
+      return openUntracked(filePath);
+    }
+
+    throw code === 'ENOENT' || code === 'EACCES'
+      ? createRunnerError(`Não foi possível executar ${launch.command}.`)
+      : error;
+  }
+
+  child.unref();
+  return child;
+};
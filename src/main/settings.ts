@@ -0,0 +1,163 @@
+import { app } from 'electron';
+import { existsSync, readFileSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ShortcutLocation } from './shortcuts';
+
+export type BandwidthSchedule = {
+  enabled: boolean;
+  /** Start of the unlimited window, as HH:MM. */
+  start: string;
+  /** End of the unlimited window, as HH:MM. */
+  end: string;
+};
+
+export type LauncherSettings = {
+  maxConcurrentDownloads: number;
+  /** How many times a single range chunk is attempted before the download gives up. */
+  maxChunkAttempts: number;
+  /** Global download cap in bytes per second; 0 means unlimited. */
+  bandwidthLimit: number;
+  unlimitedSchedule: BandwidthSchedule;
+  /** Below this speed (bytes per second) a download switches to the next mirror; 0 disables it. */
+  minMirrorSpeed: number;
+  /** Absolute paths where games can be downloaded and installed. */
+  libraryFolders: string[];
+  defaultLibraryFolder: string;
+  /** Where launcher shortcuts are written when a store game finishes installing; empty disables it. */
+  installShortcuts: ShortcutLocation[];
+};
+
+type SettingsListener = (settings: LauncherSettings, previous: LauncherSettings) => void;
+
+export const DEFAULT_LIBRARY_FOLDER =
+  process.platform === 'win32'
+    ? path.join('C:\\', 'LauGames')
+    : path.join(app.getPath('downloads'), 'LauGames');
+
+const DEFAULT_SETTINGS: LauncherSettings = {
+  maxConcurrentDownloads: 1,
+  maxChunkAttempts: 5,
+  bandwidthLimit: 0,
+  unlimitedSchedule: {
+    enabled: false,
+    start: '01:00',
+    end: '07:00',
+  },
+  minMirrorSpeed: 50 * 1024,
+  libraryFolders: [DEFAULT_LIBRARY_FOLDER],
+  defaultLibraryFolder: DEFAULT_LIBRARY_FOLDER,
+  installShortcuts: [],
+};
+
+const MAX_CONCURRENT_DOWNLOADS = 5;
+const MAX_CHUNK_ATTEMPTS = 10;
+
+const getSettingsPath = () => path.join(app.getPath('userData'), 'settings.json');
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const sanitizeTime = (value: unknown, fallback: string) =>
+  typeof value === 'string' && TIME_PATTERN.test(value) ? value : fallback;
+
+const sanitizeLibraryFolders = (value: unknown) => {
+  const folders = Array.isArray(value)
+    ? value
+        .filter((folder): folder is string => typeof folder === 'string' && path.isAbsolute(folder))
+        .map((folder) => path.resolve(folder))
+    : [];
+  const unique = Array.from(new Set(folders));
+
+  return unique.length > 0 ? unique : [...DEFAULT_SETTINGS.libraryFolders];
+};
+
+const SHORTCUT_LOCATIONS: ShortcutLocation[] = ['desktop', 'startMenu'];
+
+const sanitizeShortcutLocations = (value: unknown) =>
+  Array.isArray(value) ? SHORTCUT_LOCATIONS.filter((location) => value.includes(location)) : [];
+
+const sanitizeSettings = (raw: Partial<LauncherSettings> | null | undefined): LauncherSettings => {
+  const concurrency = Number(raw?.maxConcurrentDownloads);
+  const chunkAttempts = Number(raw?.maxChunkAttempts);
+  const bandwidthLimit = Number(raw?.bandwidthLimit);
+  const schedule = raw?.unlimitedSchedule;
+  const minMirrorSpeed = Number(raw?.minMirrorSpeed);
+  const libraryFolders = sanitizeLibraryFolders(raw?.libraryFolders);
+  const defaultLibraryFolder =
+    typeof raw?.defaultLibraryFolder === 'string' ? path.resolve(raw.defaultLibraryFolder) : '';
+
+  return {
+    maxConcurrentDownloads: Number.isFinite(concurrency)
+      ? clamp(Math.round(concurrency), 1, MAX_CONCURRENT_DOWNLOADS)
+      : DEFAULT_SETTINGS.maxConcurrentDownloads,
+    maxChunkAttempts: Number.isFinite(chunkAttempts)
+      ? clamp(Math.round(chunkAttempts), 1, MAX_CHUNK_ATTEMPTS)
+      : DEFAULT_SETTINGS.maxChunkAttempts,
+    bandwidthLimit:
+      Number.isFinite(bandwidthLimit) && bandwidthLimit > 0 ? Math.round(bandwidthLimit) : 0,
+    unlimitedSchedule: {
+      enabled: Boolean(schedule?.enabled),
+      start: sanitizeTime(schedule?.start, DEFAULT_SETTINGS.unlimitedSchedule.start),
+      end: sanitizeTime(schedule?.end, DEFAULT_SETTINGS.unlimitedSchedule.end),
+    },
+    minMirrorSpeed:
+      Number.isFinite(minMirrorSpeed) && minMirrorSpeed >= 0
+        ? Math.round(minMirrorSpeed)
+        : DEFAULT_SETTINGS.minMirrorSpeed,
+    libraryFolders,
+    defaultLibraryFolder: libraryFolders.includes(defaultLibraryFolder)
+      ? defaultLibraryFolder
+      : libraryFolders[0],
+    installShortcuts: sanitizeShortcutLocations(raw?.installShortcuts),
+  };
+};
+
+let cachedSettings: LauncherSettings | null = null;
+const listeners = new Set<SettingsListener>();
+
+export const getSettings = (): LauncherSettings => {
+  if (cachedSettings) {
+    return cachedSettings;
+  }
+
+  const settingsPath = getSettingsPath();
+
+  try {
+    cachedSettings = existsSync(settingsPath)
+      ? sanitizeSettings(JSON.parse(readFileSync(settingsPath, 'utf-8')))
+      : { ...DEFAULT_SETTINGS };
+  } catch (error) {
+    console.warn('Falha ao ler configurações, usando padrão', error);
+    cachedSettings = { ...DEFAULT_SETTINGS };
+  }
+
+  return cachedSettings;
+};
+
+export const updateSettings = async (
+  patch: Partial<LauncherSettings>,
+): Promise<LauncherSettings> => {
+  const previous = getSettings();
+  const next = sanitizeSettings({ ...previous, ...patch });
+  const settingsPath = getSettingsPath();
+  const tempPath = `${settingsPath}.tmp`;
+
+  await fs.mkdir(path.dirname(settingsPath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(next, null, 2), 'utf-8');
+  await fs.rename(tempPath, settingsPath);
+
+  cachedSettings = next;
+  listeners.forEach((listener) => listener(next, previous));
+
+  return next;
+};
+
+export const onSettingsChanged = (listener: SettingsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
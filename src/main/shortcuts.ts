@@ -0,0 +1,215 @@
+import { app, shell } from 'electron';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { DEEP_LINK_PROTOCOL } from './deepLinks';
+import { isNativeExecutable } from './runners';
+
+export type ShortcutLocation = 'desktop' | 'startMenu';
+
+/** `launcher` opens a launcherpir://launch link so the session is tracked; `executable` skips the launcher. */
+export type ShortcutTarget = 'launcher' | 'executable';
+
+export type ShortcutRequest = {
+  gameId: string;
+  title: string;
+  executablePath: string;
+  target: ShortcutTarget;
+  locations: ShortcutLocation[];
+};
+
+const SHORTCUT_EXTENSIONS = ['.desktop', '.lnk', '.url'];
+
+const createShortcutError = (message: string) => {
+  const error = new Error(message);
+  error.name = 'ShortcutError';
+  return error;
+};
+
+const getLocationDirectory = (location: ShortcutLocation) => {
+  if (location === 'desktop') {
+    return app.getPath('desktop');
+  }
+
+  if (process.platform === 'win32') {
+    return path.join(app.getPath('appData'), 'Microsoft', 'Windows', 'Start Menu', 'Programs');
+  }
+
+  return path.join(process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share'), 'applications');
+};
+
+const toWindowsFileName = (title: string) =>
+  Array.from(title)
+    .filter((char) => char >= ' ' && !'<>:"/\\|?*'.includes(char))
+    .join('')
+    .trim()
+    .replace(/\.+$/, '') || 'Jogo';
+
+/** Desktop Entry string values: backslashes and line breaks have to be escaped. */
+const escapeDesktopValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/\r?\n/g, ' ');
+
+/** Exec arguments are quoted by the spec's own rules before the value escaping above. */
+const quoteExecArg = (value: string) => `"${value.replace(/[\\"`$]/g, (char) => `\\${char}`).replace(/%/g, '%%')}"`;
+
+const getLaunchLink = (gameId: string) => `${DEEP_LINK_PROTOCOL}://launch/${encodeURIComponent(gameId)}`;
+
+const writeDesktopEntry = async (filePath: string, request: ShortcutRequest) => {
+  const { title, executablePath, target, gameId } = request;
+  const exec =
+    target === 'launcher'
+      ? `xdg-open ${quoteExecArg(getLaunchLink(gameId))}`
+      : path.extname(executablePath).toLowerCase() === '.sh'
+        ? `/bin/sh ${quoteExecArg(executablePath)}`
+        : quoteExecArg(executablePath);
+
+  const lines = [
+    '[Desktop Entry]',
+    'Type=Application',
+    `Name=${escapeDesktopValue(title)}`,
+    `Exec=${escapeDesktopValue(exec)}`,
+    ...(target === 'executable' ? [`Path=${escapeDesktopValue(path.dirname(executablePath))}`] : []),
+    'Terminal=false',
+    'Categories=Game;',
+  ];
+
+  // File managers only run desktop entries that are marked executable.
+  await fs.writeFile(filePath, `${lines.join('\n')}\n`, { encoding: 'utf-8', mode: 0o755 });
+  await fs.chmod(filePath, 0o755);
+};
+
+const writeWindowsShortcut = async (basePath: string, request: ShortcutRequest) => {
+  const { executablePath, target, title, gameId } = request;
+  const filePath = `${basePath}${target === 'launcher' ? '.url' : '.lnk'}`;
+
+  // Switching targets changes the extension; do not leave the old shortcut behind.
+  await fs.rm(`${basePath}${target === 'launcher' ? '.lnk' : '.url'}`, { force: true });
+
+  if (target === 'launcher') {
+    const lines = [
+      '[InternetShortcut]',
+      `URL=${getLaunchLink(gameId)}`,
+      `IconFile=${executablePath}`,
+      'IconIndex=0',
+    ];
+    await fs.writeFile(filePath, `${lines.join('\r\n')}\r\n`, 'utf-8');
+    return filePath;
+  }
+
+  const created = shell.writeShortcutLink(filePath, 'create', {
+    target: executablePath,
+    cwd: path.dirname(executablePath),
+    description: title,
+    icon: executablePath,
+    iconIndex: 0,
+  });
+
+  if (!created) {
+    throw createShortcutError(`Não foi possível criar o atalho em ${filePath}.`);
+  }
+
+  return filePath;
+};
+
+/** Writes one shortcut per location and returns the files written. */
+export const createGameShortcuts = async (request: ShortcutRequest): Promise<string[]> => {
+  if (process.platform !== 'win32' && process.platform !== 'linux') {
+    throw createShortcutError('Atalhos não são suportados neste sistema.');
+  }
+
+  if (request.target === 'executable' && !(await isNativeExecutable(request.executablePath))) {
+    throw createShortcutError(
+      'Este executável precisa do Wine ou do Proton; use um atalho pelo launcher.',
+    );
+  }
+
+  const created: string[] = [];
+
+  for (const location of Array.from(new Set(request.locations))) {
+    const directory = getLocationDirectory(location);
+    await fs.mkdir(directory, { recursive: true });
+
+    if (process.platform === 'win32') {
+      created.push(await writeWindowsShortcut(path.join(directory, toWindowsFileName(request.title)), request));
+    } else {
+      const filePath = path.join(directory, `launcher-pir-${request.gameId.replace(/[^a-zA-Z0-9_-]/g, '_')}.desktop`);
+      await writeDesktopEntry(filePath, request);
+      created.push(filePath);
+    }
+  }
+
+  return created;
+};
+
+/** Only files this module could have written count; anything else in a stored list is ignored. */
+const isManagedShortcut = (filePath: unknown): filePath is string => {
+  if (
+    typeof filePath !== 'string' ||
+    !path.isAbsolute(filePath) ||
+    !SHORTCUT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+  ) {
+    return false;
+  }
+
+  const directory = path.dirname(path.resolve(filePath));
+  return (['desktop', 'startMenu'] as ShortcutLocation[]).some(
+    (location) => path.resolve(getLocationDirectory(location)) === directory,
+  );
+};
+
+/** The target is not stored with the game, so it is read back from the shortcut itself. */
+const readShortcutTarget = async (filePath: string): Promise<ShortcutTarget | null> => {
+  const extension = path.extname(filePath).toLowerCase();
+
+  try {
+    if (extension !== '.desktop') {
+      await fs.access(filePath);
+      return extension === '.lnk' ? 'executable' : 'launcher';
+    }
+
+    // Only executable entries get a working directory.
+    return /^Path=/m.test(await fs.readFile(filePath, 'utf-8')) ? 'executable' : 'launcher';
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Rewrites the existing shortcuts after the game folder moved, keeping each one's
+ * location and target. Shortcuts the user already deleted are not recreated.
+ */
+export const relocateGameShortcuts = async (
+  filePaths: string[],
+  request: Pick<ShortcutRequest, 'gameId' | 'title' | 'executablePath'>,
+): Promise<string[]> => {
+  const rewritten: string[] = [];
+
+  for (const filePath of Array.from(new Set(filePaths.filter(isManagedShortcut)))) {
+    const target = await readShortcutTarget(filePath);
+
+    if (!target) {
+      continue;
+    }
+
+    const shortcut: ShortcutRequest = { ...request, target, locations: [] };
+
+    if (process.platform === 'win32') {
+      const basePath = filePath.slice(0, -path.extname(filePath).length);
+      rewritten.push(await writeWindowsShortcut(basePath, shortcut));
+    } else {
+      await writeDesktopEntry(filePath, shortcut);
+      rewritten.push(filePath);
+    }
+  }
+
+  return rewritten;
+};
+
+export const removeGameShortcuts = async (filePaths: string[]) => {
+  await Promise.all(
+    filePaths.filter(isManagedShortcut).map((filePath) => fs.rm(filePath, { force: true })),
+  );
+};
@@ -3,6 +3,61 @@ import { contextBridge, ipcRenderer } from 'electron';
 type LaunchGameResult = {
   success: boolean;
   message?: string;
+  /** False when the game had to be opened through the shell and its process cannot be followed. */
+  tracked?: boolean;
+  startedAt?: string;
+  /** A pre-launch hook failed but was not allowed to stop the game. */
+  hookWarning?: string;
+  logPath?: string;
+};
+
+type GameHook = {
+  command: string;
+  args: string[];
+  timeoutSeconds: number;
+  abortOnFailure: boolean;
+  background: boolean;
+};
+
+type GameHookFailure = {
+  gameId: string;
+  phase: 'preLaunch' | 'postExit';
+  message: string;
+  logPath: string;
+};
+
+type RunningGame = {
+  gameId: string;
+  pid?: number;
+  startedAt: string;
+};
+
+type GameExit = RunningGame & {
+  endedAt: string;
+  durationSeconds: number;
+  exitCode: number | null;
+  signal: string | null;
+};
+
+type DeepLink = {
+  action: 'store' | 'install' | 'launch';
+  id: string;
+};
+
+type CliRequest = {
+  id: string;
+  command:
+    | { action: 'list' }
+    | { action: 'refresh-catalog' }
+    | { action: 'launch'; id: string }
+    | { action: 'install'; id: string };
+  headless: boolean;
+};
+
+type CliResult = {
+  success: boolean;
+  message?: string;
+  [key: string]: unknown;
 };
 
 type SelectExecutableResult =
@@ -13,11 +68,132 @@ type ValidateExecutableResult =
   | { success: true; filePath: string }
   | { success: false; message: string };
 
+type GameRunner = {
+  kind: 'auto' | 'native' | 'wine' | 'proton';
+  binaryPath?: string;
+  prefixPath?: string;
+};
+
+type GameLaunchPayload = {
+  executablePath: string;
+  gameId?: string;
+  runner?: GameRunner;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  hooks?: { preLaunch?: GameHook; postExit?: GameHook };
+};
+
+type RunnerInstallation = {
+  kind: 'wine' | 'proton';
+  name: string;
+  path: string;
+};
+
+type ArchiveFormat = 'zip' | '7z' | 'rar' | 'tar' | 'tar.gz' | 'tar.xz';
+
+type DownloadPart = {
+  url: string;
+  sizeBytes?: number;
+  sha256?: string;
+};
+
+type ExecutableCandidate = {
+  path: string;
+  relativePath: string;
+  size: number;
+  score: number;
+};
+
 type DownloadStartPayload = {
   gameId: string;
   url: string;
   fileName: string;
+  title?: string;
   expectedExecutable?: string;
+  sha256?: string;
+  sizeBytes?: number;
+  mirrors?: string[];
+  libraryFolder?: string;
+  archiveFormat?: ArchiveFormat;
+  parts?: DownloadPart[];
+};
+
+type LauncherSettings = {
+  maxConcurrentDownloads: number;
+  maxChunkAttempts: number;
+  bandwidthLimit: number;
+  unlimitedSchedule: {
+    enabled: boolean;
+    start: string;
+    end: string;
+  };
+  minMirrorSpeed: number;
+  libraryFolders: string[];
+  defaultLibraryFolder: string;
+  installShortcuts: ShortcutLocation[];
+};
+
+type ShortcutLocation = 'desktop' | 'startMenu';
+
+type LibraryData = {
+  games: unknown[];
+  storeGames: unknown[];
+  downloadRecords: unknown[];
+};
+
+type ShortcutPayload = {
+  gameId: string;
+  title: string;
+  executablePath: string;
+  /** Both omitted for the install step, which follows the `installShortcuts` setting. */
+  target?: 'launcher' | 'executable';
+  locations?: ShortcutLocation[];
+};
+
+type LibraryFolderInfo = {
+  path: string;
+  isDefault: boolean;
+  exists: boolean;
+  free?: number;
+  total?: number;
+};
+
+type ChooseFolderResult =
+  | { canceled: true }
+  | { canceled: false; folderPath: string };
+
+type LibraryFolderChangeResult = {
+  success: boolean;
+  canceled?: boolean;
+  message?: string;
+  settings?: LauncherSettings;
+};
+
+type InstallationMovePayload = {
+  gameId: string;
+  installDirectory: string;
+  executablePath?: string;
+  targetFolder: string;
+  title?: string;
+  shortcuts?: string[];
+};
+
+type InstallationMoveEvent = {
+  gameId: string;
+  state: 'copying' | 'verifying' | 'removing' | 'completed' | 'failed' | 'cancelled';
+  processed?: number;
+  total?: number;
+  installDirectory?: string;
+  executablePath?: string;
+  message?: string;
+};
+
+type DownloadHostDescriptor = {
+  id: string;
+  label: string;
+  hosts: string[];
+  pathPattern?: string;
 };
 
 type DownloadProgressEvent = {
@@ -25,11 +201,15 @@ type DownloadProgressEvent = {
   state:
     | 'queued'
     | 'downloading'
+    | 'verifying'
     | 'extracting'
     | 'ready'
     | 'failed'
     | 'cancelled'
-    | 'awaitingExtraction';
+    | 'paused'
+    | 'interrupted'
+    | 'awaitingExtraction'
+    | 'awaitingExecutableChoice';
   received?: number;
   total?: number;
   filePath?: string;
@@ -40,17 +220,80 @@ type DownloadProgressEvent = {
   installDirectory?: string;
   executablePath?: string;
   elapsed?: number;
+  queuePosition?: number;
+  queueLength?: number;
+  retryable?: boolean;
+  retries?: number;
+  mirrorUrl?: string;
+  mirrorIndex?: number;
+  part?: number;
+  partCount?: number;
+  entriesProcessed?: number;
+  entriesTotal?: number;
+  eta?: number;
+  candidates?: ExecutableCandidate[];
 };
 
 const api = {
-  launchGame: (executablePath: string): Promise<LaunchGameResult> =>
-    ipcRenderer.invoke('game:launch', executablePath),
+  platform: process.platform,
+  launchGame: (payload: GameLaunchPayload): Promise<LaunchGameResult> =>
+    ipcRenderer.invoke('game:launch', payload),
   selectExecutable: (): Promise<SelectExecutableResult> =>
     ipcRenderer.invoke('dialog:select-executable'),
+  listRunningGames: (): Promise<RunningGame[]> => ipcRenderer.invoke('game:list-running'),
+  onGameStarted: (listener: (event: RunningGame) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: RunningGame) => listener(data);
+    ipcRenderer.on('game:started', handler);
+    return () => {
+      ipcRenderer.removeListener('game:started', handler);
+    };
+  },
+  onGameExited: (listener: (event: GameExit) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: GameExit) => listener(data);
+    ipcRenderer.on('game:exited', handler);
+    return () => {
+      ipcRenderer.removeListener('game:exited', handler);
+    };
+  },
+  onGameHookFailed: (listener: (event: GameHookFailure) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: GameHookFailure) => listener(data);
+    ipcRenderer.on('game:hook-failed', handler);
+    return () => {
+      ipcRenderer.removeListener('game:hook-failed', handler);
+    };
+  },
+  openHookLog: (gameId: string): Promise<{ success: boolean; message?: string }> =>
+    ipcRenderer.invoke('game:open-hook-log', gameId),
+  listRunners: (): Promise<RunnerInstallation[]> => ipcRenderer.invoke('runners:list'),
+  selectRunnerBinary: (): Promise<SelectExecutableResult> => ipcRenderer.invoke('dialog:select-runner'),
+  selectPrefixFolder: (): Promise<ChooseFolderResult> => ipcRenderer.invoke('dialog:select-prefix'),
   validateExecutable: (executablePath: string): Promise<ValidateExecutableResult> =>
     ipcRenderer.invoke('game:validate-executable', executablePath),
   openExternal: (url: string): Promise<{ success: boolean; message?: string }> =>
     ipcRenderer.invoke('app:open-external', url),
+  /** Marks the renderer as ready for links and returns the one that opened the app, if any. */
+  takePendingDeepLink: (): Promise<DeepLink | null> => ipcRenderer.invoke('app:deep-link-ready'),
+  onDeepLink: (listener: (link: DeepLink) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: DeepLink) => listener(data);
+    ipcRenderer.on('app:deep-link', handler);
+    return () => {
+      ipcRenderer.removeListener('app:deep-link', handler);
+    };
+  },
+  /** Marks the renderer as ready for CLI commands and returns the ones received so far. */
+  takePendingCliRequests: (): Promise<CliRequest[]> => ipcRenderer.invoke('cli:ready'),
+  onCliRequest: (listener: (request: CliRequest) => void): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: CliRequest) => listener(data);
+    ipcRenderer.on('cli:command', handler);
+    return () => {
+      ipcRenderer.removeListener('cli:command', handler);
+    };
+  },
+  /** Printed by main as one line of JSON on stdout, or sent back to the launch that forwarded the command. */
+  reportCliResult: (requestId: string, result: CliResult): Promise<void> =>
+    ipcRenderer.invoke('cli:result', requestId, result),
+  finishCliRequest: (requestId: string, success: boolean): Promise<void> =>
+    ipcRenderer.invoke('cli:finished', requestId, success),
   startStoreDownload: (payload: DownloadStartPayload) =>
     ipcRenderer.invoke('store:start-download', payload),
   onStoreDownloadProgress: (
@@ -63,12 +306,57 @@ const api = {
       ipcRenderer.removeListener('store:download-progress', handler);
     };
   },
-  uninstallGame: (installDirectory: string) =>
-    ipcRenderer.invoke('library:uninstall', installDirectory),
+  createShortcuts: (payload: ShortcutPayload): Promise<{ success: boolean; message?: string; paths?: string[] }> =>
+    ipcRenderer.invoke('shortcuts:create', payload),
+  removeShortcuts: (paths: string[]): Promise<{ success: boolean; message?: string }> =>
+    ipcRenderer.invoke('shortcuts:remove', paths),
+  uninstallGame: (installDirectory: string, shortcuts?: string[]) =>
+    ipcRenderer.invoke('library:uninstall', installDirectory, shortcuts),
+  moveInstallation: (payload: InstallationMovePayload) =>
+    ipcRenderer.invoke('library:move-installation', payload),
+  cancelInstallationMove: (gameId: string) => ipcRenderer.invoke('library:cancel-move', gameId),
+  onInstallationMoveProgress: (
+    listener: (event: InstallationMoveEvent) => void,
+  ): (() => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: InstallationMoveEvent) =>
+      listener(data);
+    ipcRenderer.on('library:move-progress', handler);
+    return () => {
+      ipcRenderer.removeListener('library:move-progress', handler);
+    };
+  },
   cancelDownload: (gameId: string) => ipcRenderer.invoke('store:cancel-download', gameId),
-  resumeExtraction: (payload: { gameId: string; filePath: string; expectedExecutable?: string }) =>
+  pauseDownload: (gameId: string) => ipcRenderer.invoke('store:pause-download', gameId),
+  resumeDownload: (gameId: string) => ipcRenderer.invoke('store:resume-download', gameId),
+  moveDownload: (gameId: string, toIndex: number) =>
+    ipcRenderer.invoke('store:move-download', { gameId, toIndex }),
+  prioritizeDownload: (gameId: string) => ipcRenderer.invoke('store:prioritize-download', gameId),
+  listLibraryFolders: (): Promise<LibraryFolderInfo[]> => ipcRenderer.invoke('library:list-folders'),
+  addLibraryFolder: (): Promise<LibraryFolderChangeResult> => ipcRenderer.invoke('library:add-folder'),
+  removeLibraryFolder: (folderPath: string): Promise<LibraryFolderChangeResult> =>
+    ipcRenderer.invoke('library:remove-folder', folderPath),
+  getDiskSpace: (targetPath?: string) => ipcRenderer.invoke('system:get-disk-space', targetPath),
+  listDownloadHosts: (): Promise<DownloadHostDescriptor[]> =>
+    ipcRenderer.invoke('store:list-download-hosts'),
+  setDownloadLimit: (gameId: string, bytesPerSecond: number) =>
+    ipcRenderer.invoke('store:set-download-limit', { gameId, bytesPerSecond }),
+  resumeExtraction: (payload: {
+    gameId: string;
+    filePath: string;
+    expectedExecutable?: string;
+    archiveFormat?: ArchiveFormat;
+    title?: string;
+  }) =>
     ipcRenderer.invoke('store:resume-extraction', payload),
   writeTextFile: (filePath: string, data: string) => ipcRenderer.invoke('file:write-text', { filePath, data }),
+  /** `data` is null until the first save, so the renderer can import its old localStorage copy. */
+  loadLibraryData: (): Promise<{ success: boolean; message?: string; data?: LibraryData | null }> =>
+    ipcRenderer.invoke('library-data:load'),
+  saveLibraryData: (data: LibraryData): Promise<{ success: boolean; message?: string }> =>
+    ipcRenderer.invoke('library-data:save', data),
+  saveLibraryDataSync: (data: LibraryData): boolean => ipcRenderer.sendSync('library-data:save-sync', data),
+  getSettings: (): Promise<LauncherSettings> => ipcRenderer.invoke('settings:get'),
+  updateSettings: (patch: Partial<LauncherSettings>) => ipcRenderer.invoke('settings:update', patch),
 };
 
 contextBridge.exposeInMainWorld('electronAPI', api);
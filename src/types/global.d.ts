@@ -1,5 +1,39 @@
+import type {
+  ArchiveFormat,
+  CliRequest,
+  CliResult,
+  DeepLink,
+  DownloadHostDescriptor,
+  ExecutableCandidate,
+  GameExit,
+  GameHookFailure,
+  GameLaunchPayload,
+  InstallationMoveEvent,
+  LauncherSettings,
+  LibraryData,
+  LibraryFolderInfo,
+  RunnerInstallation,
+  RunningGame,
+  ShortcutLocation,
+  ShortcutTarget,
+  StoreDownloadPart,
+} from '../ui/types';
+
 export interface ElectronAPI {
-  launchGame: (executablePath: string) => Promise<{ success: boolean; message?: string }>;
+  platform: string;
+  launchGame: (payload: GameLaunchPayload) => Promise<{
+    success: boolean;
+    message?: string;
+    tracked?: boolean;
+    startedAt?: string;
+    hookWarning?: string;
+    logPath?: string;
+  }>;
+  listRunningGames: () => Promise<RunningGame[]>;
+  onGameStarted: (listener: (event: RunningGame) => void) => () => void;
+  onGameExited: (listener: (event: GameExit) => void) => () => void;
+  onGameHookFailed: (listener: (event: GameHookFailure) => void) => () => void;
+  openHookLog: (gameId: string) => Promise<{ success: boolean; message?: string }>;
   selectExecutable: () => Promise<
     | { canceled: true }
     | {
@@ -7,6 +41,9 @@ export interface ElectronAPI {
         filePath: string;
       }
   >;
+  listRunners: () => Promise<RunnerInstallation[]>;
+  selectRunnerBinary: () => Promise<{ canceled: true } | { canceled: false; filePath: string }>;
+  selectPrefixFolder: () => Promise<{ canceled: true } | { canceled: false; folderPath: string }>;
   validateExecutable: (
     executablePath: string,
   ) => Promise<
@@ -20,23 +57,52 @@ export interface ElectronAPI {
       }
   >;
   openExternal: (url: string) => Promise<{ success: boolean; message?: string }>;
+  takePendingDeepLink: () => Promise<DeepLink | null>;
+  onDeepLink: (listener: (link: DeepLink) => void) => () => void;
+  takePendingCliRequests: () => Promise<CliRequest[]>;
+  onCliRequest: (listener: (request: CliRequest) => void) => () => void;
+  reportCliResult: (requestId: string, result: CliResult) => Promise<void>;
+  finishCliRequest: (requestId: string, success: boolean) => Promise<void>;
   startStoreDownload: (payload: {
     gameId: string;
     url: string;
     fileName: string;
+    title?: string;
     expectedExecutable?: string;
-  }) => Promise<{ success: boolean; message?: string }>;
+    sha256?: string;
+    sizeBytes?: number;
+    mirrors?: string[];
+    libraryFolder?: string;
+    archiveFormat?: ArchiveFormat;
+    parts?: StoreDownloadPart[];
+  }) => Promise<{
+    success: boolean;
+    state?:
+      | 'queued'
+      | 'paused'
+      | 'interrupted'
+      | 'cancelled'
+      | 'failed'
+      | 'awaitingExtraction'
+      | 'awaitingExecutableChoice';
+    queuePosition?: number;
+    message?: string;
+  }>;
   onStoreDownloadProgress: (
     listener: (event: {
       gameId: string;
       state:
         | 'queued'
         | 'downloading'
+        | 'verifying'
         | 'extracting'
         | 'ready'
         | 'failed'
         | 'cancelled'
-        | 'awaitingExtraction';
+        | 'paused'
+        | 'interrupted'
+        | 'awaitingExtraction'
+        | 'awaitingExecutableChoice';
       received?: number;
       total?: number;
       filePath?: string;
@@ -47,16 +113,102 @@ export interface ElectronAPI {
       installDirectory?: string;
       executablePath?: string;
       elapsed?: number;
+      queuePosition?: number;
+      queueLength?: number;
+      retryable?: boolean;
+      retries?: number;
+      mirrorUrl?: string;
+      mirrorIndex?: number;
+      part?: number;
+      partCount?: number;
+      entriesProcessed?: number;
+      entriesTotal?: number;
+      eta?: number;
+      candidates?: ExecutableCandidate[];
     }) => void,
   ) => () => void;
-  uninstallGame: (installDirectory: string) => Promise<{ success: boolean; message?: string }>;
+  createShortcuts: (payload: {
+    gameId: string;
+    title: string;
+    executablePath: string;
+    target?: ShortcutTarget;
+    locations?: ShortcutLocation[];
+  }) => Promise<{ success: boolean; message?: string; paths?: string[] }>;
+  removeShortcuts: (paths: string[]) => Promise<{ success: boolean; message?: string }>;
+  uninstallGame: (
+    installDirectory: string,
+    shortcuts?: string[],
+  ) => Promise<{ success: boolean; message?: string }>;
+  moveInstallation: (payload: {
+    gameId: string;
+    installDirectory: string;
+    executablePath?: string;
+    targetFolder: string;
+    title?: string;
+    shortcuts?: string[];
+  }) => Promise<{
+    success: boolean;
+    cancelled?: boolean;
+    installDirectory?: string;
+    executablePath?: string;
+    message?: string;
+  }>;
+  cancelInstallationMove: (gameId: string) => Promise<{ success: boolean; message?: string }>;
+  onInstallationMoveProgress: (listener: (event: InstallationMoveEvent) => void) => () => void;
   cancelDownload: (gameId: string) => Promise<{ success: boolean; message?: string }>;
+  pauseDownload: (gameId: string) => Promise<{ success: boolean; message?: string }>;
+  moveDownload: (gameId: string, toIndex: number) => Promise<{ success: boolean; message?: string }>;
+  prioritizeDownload: (gameId: string) => Promise<{ success: boolean; message?: string }>;
+  listLibraryFolders: () => Promise<LibraryFolderInfo[]>;
+  addLibraryFolder: () => Promise<{
+    success: boolean;
+    canceled?: boolean;
+    message?: string;
+    settings?: LauncherSettings;
+  }>;
+  removeLibraryFolder: (
+    folderPath: string,
+  ) => Promise<{ success: boolean; message?: string; settings?: LauncherSettings }>;
+  getDiskSpace: (targetPath?: string) => Promise<{
+    success: boolean;
+    path?: string;
+    free?: number;
+    total?: number;
+    message?: string;
+  }>;
+  listDownloadHosts: () => Promise<DownloadHostDescriptor[]>;
+  setDownloadLimit: (
+    gameId: string,
+    bytesPerSecond: number,
+  ) => Promise<{ success: boolean; message?: string }>;
+  resumeDownload: (
+    gameId: string,
+  ) => Promise<{ success: boolean; resumable?: boolean; message?: string }>;
   resumeExtraction: (payload: {
     gameId: string;
     filePath: string;
     expectedExecutable?: string;
-  }) => Promise<{ success: boolean; message?: string; installDirectory?: string; executablePath?: string }>;
+    archiveFormat?: ArchiveFormat;
+    title?: string;
+  }) => Promise<{
+    success: boolean;
+    cancelled?: boolean;
+    message?: string;
+    installDirectory?: string;
+    /** Missing when the user has to pick one of `candidates`. */
+    executablePath?: string;
+    candidates?: ExecutableCandidate[];
+  }>;
   writeTextFile: (filePath: string, data: string) => Promise<{ success: boolean; message?: string }>;
+  /** `data` is null until the first save, so the renderer can import its old localStorage copy. */
+  loadLibraryData: () => Promise<{ success: boolean; message?: string; data?: LibraryData | null }>;
+  saveLibraryData: (data: LibraryData) => Promise<{ success: boolean; message?: string }>;
+  /** Blocks until main has queued `data`, for unload, where an async save could miss the quit flush. */
+  saveLibraryDataSync: (data: LibraryData) => boolean;
+  getSettings: () => Promise<LauncherSettings>;
+  updateSettings: (
+    patch: Partial<LauncherSettings>,
+  ) => Promise<{ success: boolean; message?: string; settings?: LauncherSettings }>;
 }
 
 declare global {
@@ -3,38 +3,129 @@ import React, { useEffect, useState } from 'react';
 import { AddGameModal } from './components/AddGameModal';
 import { AddStoreGameModal } from './components/AddStoreGameModal';
 import { AppShell, AppShellTab } from './components/AppShell';
+import { FeedbackToast } from './components/common/FeedbackToast';
 import { DownloadsView } from './components/DownloadsView';
 import { LibraryView } from './components/LibraryView';
 import { StoreView } from './components/StoreView';
 import { GameStoreProvider, useGameStore } from './state/GameStore';
-import { StoreGame } from './types';
+import { SettingsProvider } from './state/SettingsStore';
+import { useCliCommands } from './state/useCliCommands';
+import { DeepLink, StoreGame } from './types';
 
 export const App: React.FC = () => (
-  <GameStoreProvider>
-    <AppContent />
-  </GameStoreProvider>
+  <SettingsProvider>
+    <GameStoreProvider>
+      <AppContent />
+    </GameStoreProvider>
+  </SettingsProvider>
 );
 
 const AppContent: React.FC = () => {
-  const { isRemoteStore } = useGameStore();
+  const { isRemoteStore, games, storeGames, loaded } = useGameStore();
   const [activeTab, setActiveTab] = useState<AppShellTab>('library');
   const [showAddModal, setShowAddModal] = useState(false);
   const [showAddStoreModal, setShowAddStoreModal] = useState(false);
   const [editingStoreGame, setEditingStoreGame] = useState<StoreGame | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [focusedDownloadGameId, setFocusedDownloadGameId] = useState<string | null>(null);
+  const [focusedLibraryGameId, setFocusedLibraryGameId] = useState<string | null>(null);
+  const [focusedStoreGameId, setFocusedStoreGameId] = useState<string | null>(null);
+  const [launchRequestId, setLaunchRequestId] = useState<string | null>(null);
+  const [installRequestId, setInstallRequestId] = useState<string | null>(null);
+  const [deepLink, setDeepLink] = useState<DeepLink | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  useCliCommands();
 
   const handleShowDownloads = (gameId: string) => {
     setFocusedDownloadGameId(gameId);
     setActiveTab('downloads');
   };
 
+  const handleShowLibrary = (libraryEntryId?: string) => {
+    setFocusedLibraryGameId(libraryEntryId ?? null);
+    setActiveTab('library');
+  };
+
+  const handleShowStore = (storeGameId: string) => {
+    setFocusedStoreGameId(storeGameId);
+    setActiveTab('store');
+  };
+
   useEffect(() => {
     if (activeTab !== 'downloads') {
       setFocusedDownloadGameId(null);
     }
+    if (activeTab !== 'library') {
+      setFocusedLibraryGameId(null);
+    }
+    if (activeTab !== 'store') {
+      setFocusedStoreGameId(null);
+    }
   }, [activeTab]);
 
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.onDeepLink) {
+      return undefined;
+    }
+
+    const unsubscribe = api.onDeepLink(setDeepLink);
+    // The link that started the app waits in main until we are listening.
+    api.takePendingDeepLink().then((link) => {
+      if (link) {
+        setDeepLink(link);
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    // Links that open the app wait for the saved library before looking up the game.
+    if (!deepLink || !loaded) {
+      return;
+    }
+
+    setDeepLink(null);
+    setSearchTerm('');
+
+    if (deepLink.action === 'launch') {
+      const game = games.find((entry) => entry.id === deepLink.id && entry.installed);
+
+      if (!game) {
+        setToast('O jogo deste link não está instalado na biblioteca.');
+        return;
+      }
+
+      handleShowLibrary(game.id);
+      if (window.confirm(`Iniciar ${game.title}?`)) {
+        setLaunchRequestId(game.id);
+      }
+      return;
+    }
+
+    const storeGame = storeGames.find((entry) => entry.id === deepLink.id);
+
+    if (!storeGame) {
+      setToast('O jogo deste link não foi encontrado na loja.');
+      return;
+    }
+
+    const libraryEntry = games.find((entry) => entry.storeId === storeGame.id && entry.installed);
+
+    if (deepLink.action === 'install' && libraryEntry) {
+      handleShowLibrary(libraryEntry.id);
+      setToast(`${storeGame.title} já está instalado.`);
+      return;
+    }
+
+    handleShowStore(storeGame.id);
+    if (deepLink.action === 'install' && window.confirm(`Baixar e instalar ${storeGame.title}?`)) {
+      setInstallRequestId(storeGame.id);
+    }
+  }, [deepLink, games, storeGames, loaded]);
+
   useEffect(() => {
     if (isRemoteStore) {
       setShowAddStoreModal(false);
@@ -54,6 +145,8 @@ const AppContent: React.FC = () => {
 
   return (
     <>
+      {toast ? <FeedbackToast message={toast} onClose={() => setToast(null)} /> : null}
+
       <AppShell
         activeTab={activeTab}
         onChangeTab={setActiveTab}
@@ -64,6 +157,9 @@ const AppContent: React.FC = () => {
           <LibraryView
             searchTerm={searchTerm}
             onAddGame={() => setShowAddModal(true)}
+            focusedGameId={focusedLibraryGameId}
+            launchRequestId={launchRequestId}
+            onLaunchRequestHandled={() => setLaunchRequestId(null)}
           />
         ) : activeTab === 'store' ? (
           <StoreView
@@ -71,12 +167,10 @@ const AppContent: React.FC = () => {
             onAddStoreGame={!isRemoteStore ? handleOpenCreateStoreGame : undefined}
             onShowDownloads={handleShowDownloads}
             onEditStoreGame={!isRemoteStore ? handleEditStoreGame : undefined}
-            onShowLibrary={(libraryEntryId) => {
-              setActiveTab('library');
-              if (libraryEntryId) {
-                // espaço reservado caso implementemos foco específico na biblioteca
-              }
-            }}
+            onShowLibrary={handleShowLibrary}
+            focusedGameId={focusedStoreGameId}
+            installRequestId={installRequestId}
+            onInstallRequestHandled={() => setInstallRequestId(null)}
           />
         ) : (
           <DownloadsView
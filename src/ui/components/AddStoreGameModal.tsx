@@ -1,7 +1,9 @@
 import React, { useEffect, useMemo, useState } from 'react';
 
 import { useGameStore } from '../state/GameStore';
-import { StoreGame } from '../types';
+import { ArchiveFormat, DownloadHostDescriptor, StoreDownloadPart, StoreGame } from '../types';
+import { ARCHIVE_FORMAT_LABELS, ARCHIVE_FORMATS } from '../utils/archiveFormats';
+import { findDownloadHost } from '../utils/downloadHosts';
 
 interface AddStoreGameModalProps {
   open: boolean;
@@ -19,6 +21,12 @@ type FormState = {
   size: string;
   downloadUrl: string;
   expectedExecutable: string;
+  sha256: string;
+  sizeBytes: string;
+  mirrors: string;
+  /** Parts after the first, one `url [bytes] [sha256]` per line. */
+  extraParts: string;
+  archiveFormat: ArchiveFormat | '';
 };
 
 const DEFAULT_FORM: FormState = {
@@ -31,6 +39,37 @@ const DEFAULT_FORM: FormState = {
   size: '10 GB',
   downloadUrl: '',
   expectedExecutable: '',
+  sha256: '',
+  sizeBytes: '',
+  mirrors: '',
+  extraParts: '',
+  archiveFormat: '',
+};
+
+const formatPartLine = (part: StoreDownloadPart) =>
+  [part.url, part.sizeBytes, part.sha256].filter(Boolean).join(' ');
+
+const parsePartLine = (line: string): StoreDownloadPart | null => {
+  const [url, ...rest] = line.split(/\s+/);
+
+  try {
+    new URL(url);
+  } catch {
+    return null;
+  }
+
+  const sizeText = rest.find((value) => /^\d+$/.test(value));
+  const sha256 = rest.find((value) => /^[a-f0-9]{64}$/i.test(value));
+
+  if (rest.length !== [sizeText, sha256].filter(Boolean).length) {
+    return null;
+  }
+
+  return {
+    url,
+    sizeBytes: sizeText ? Number(sizeText) : undefined,
+    sha256: sha256?.toLowerCase(),
+  };
 };
 
 const normalizeTag = (raw: string): string | null => {
@@ -61,6 +100,28 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
   const { addStoreGame, editStoreGame } = useGameStore();
   const [form, setForm] = useState<FormState>(DEFAULT_FORM);
   const [error, setError] = useState<string | null>(null);
+  const [downloadHosts, setDownloadHosts] = useState<DownloadHostDescriptor[]>([]);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!open || !api?.listDownloadHosts) {
+      return;
+    }
+
+    let active = true;
+    api
+      .listDownloadHosts()
+      .then((hosts) => {
+        if (active) {
+          setDownloadHosts(hosts);
+        }
+      })
+      .catch((loadError) => console.warn('Falha ao carregar hosts de download', loadError));
+
+    return () => {
+      active = false;
+    };
+  }, [open]);
 
   useEffect(() => {
     if (!open) {
@@ -70,6 +131,7 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
     }
 
     if (editingGame) {
+      const [firstPart, ...otherParts] = editingGame.downloadParts ?? [];
       setForm({
         title: editingGame.title,
         description: editingGame.description,
@@ -80,6 +142,11 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
         size: editingGame.size ?? '',
         downloadUrl: editingGame.downloadUrl,
         expectedExecutable: editingGame.expectedExecutable ?? '',
+        sha256: (firstPart ? firstPart.sha256 : editingGame.sha256) ?? '',
+        sizeBytes: String((firstPart ? firstPart.sizeBytes : editingGame.sizeBytes) ?? ''),
+        mirrors: (editingGame.mirrors ?? []).join('\n'),
+        extraParts: otherParts.map(formatPartLine).join('\n'),
+        archiveFormat: editingGame.archiveFormat ?? '',
       });
     } else {
       setForm(DEFAULT_FORM);
@@ -131,22 +198,81 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
       return;
     }
 
-    let parsedUrl: URL;
-
     try {
-      parsedUrl = new URL(downloadUrl);
+      new URL(downloadUrl);
     } catch (error) {
       setError('Link de download inválido.');
       return;
     }
 
-    const host = parsedUrl.hostname.toLowerCase();
+    // Without the registry (e.g. outside Electron) main still rejects unsupported links.
+    const isSupportedLink = (url: string) =>
+      downloadHosts.length === 0 || Boolean(findDownloadHost(downloadHosts, url));
+
+    if (!isSupportedLink(downloadUrl)) {
+      setError(`Link não suportado. Hosts aceitos: ${downloadHosts.map((host) => host.label).join(', ')}.`);
+      return;
+    }
+
+    const sha256 = form.sha256.trim().toLowerCase();
+
+    if (sha256 && !/^[a-f0-9]{64}$/.test(sha256)) {
+      setError('O SHA-256 deve ter 64 caracteres hexadecimais.');
+      return;
+    }
+
+    const sizeBytesText = form.sizeBytes.trim();
+    const sizeBytes = sizeBytesText ? Number(sizeBytesText) : undefined;
+
+    if (sizeBytes !== undefined && (!Number.isInteger(sizeBytes) || sizeBytes <= 0)) {
+      setError('Informe o tamanho exato em bytes como um número inteiro.');
+      return;
+    }
+
+    const mirrors = form.mirrors
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+    const invalidMirror = mirrors.find((mirror) => {
+      try {
+        new URL(mirror);
+      } catch {
+        return true;
+      }
+      return !isSupportedLink(mirror);
+    });
+
+    if (invalidMirror) {
+      setError(`Espelho inválido: ${invalidMirror}`);
+      return;
+    }
+
+    const partLines = form.extraParts
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const extraParts = partLines.map(parsePartLine);
+    const invalidPart = partLines.find(
+      (line, index) => !extraParts[index] || !isSupportedLink(extraParts[index]?.url ?? ''),
+    );
+
+    if (invalidPart) {
+      setError(`Parte inválida: ${invalidPart}`);
+      return;
+    }
 
-    if (!host.includes('drive.google') && !host.includes('mediafire.com')) {
-      setError('Informe um link do Google Drive ou MediaFire.');
+    if (partLines.length > 0 && mirrors.length > 0) {
+      setError('Espelhos não são usados em downloads divididos em partes.');
       return;
     }
 
+    // The link, SHA-256 and size fields describe the first part when there are more.
+    const downloadParts =
+      partLines.length > 0
+        ? [{ url: downloadUrl, sizeBytes, sha256: sha256 || undefined }, ...(extraParts as StoreDownloadPart[])]
+        : undefined;
+
     const payload = {
       title: form.title.trim(),
       description:
@@ -159,6 +285,11 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
       size: form.size.trim() || undefined,
       downloadUrl,
       expectedExecutable: form.expectedExecutable.trim() || undefined,
+      sha256: downloadParts ? undefined : sha256 || undefined,
+      sizeBytes: downloadParts ? undefined : sizeBytes,
+      mirrors: mirrors.length > 0 ? mirrors : undefined,
+      archiveFormat: form.archiveFormat || undefined,
+      downloadParts,
     };
 
     if (editingGame) {
@@ -276,6 +407,11 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
                 placeholder="https://mediafire.com/..."
                 required
               />
+              {downloadHosts.length > 0 ? (
+                <small className="modal__hint">
+                  Aceitos: {downloadHosts.map((host) => host.label).join(', ')}
+                </small>
+              ) : null}
             </label>
 
             <label className="modal__full">
@@ -287,6 +423,65 @@ export const AddStoreGameModal: React.FC<AddStoreGameModalProps> = ({
                 placeholder="Ex: Game.exe ou bin\\Game.exe"
               />
             </label>
+
+            <label className="modal__full">
+              Espelhos (opcional, um link por linha, em ordem de preferência)
+              <textarea
+                value={form.mirrors}
+                onChange={(event) => updateField('mirrors', event.target.value)}
+                placeholder="https://drive.google.com/...&#10;https://servidor.exemplo/jogo.zip"
+                rows={3}
+              />
+            </label>
+
+            <label className="modal__full">
+              Demais partes (opcional, para arquivos divididos: link [bytes] [SHA-256] por linha)
+              <textarea
+                value={form.extraParts}
+                onChange={(event) => updateField('extraParts', event.target.value)}
+                placeholder="https://servidor.exemplo/jogo.part2.rar&#10;https://servidor.exemplo/jogo.part3.rar"
+                rows={3}
+              />
+              <small className="modal__hint">
+                O link de download, o SHA-256 e o tamanho acima passam a valer para a primeira parte.
+              </small>
+            </label>
+
+            <label>
+              SHA-256 do arquivo (opcional)
+              <input
+                type="text"
+                value={form.sha256}
+                onChange={(event) => updateField('sha256', event.target.value)}
+                placeholder="64 caracteres hexadecimais"
+              />
+            </label>
+
+            <label>
+              Tamanho exato em bytes (opcional)
+              <input
+                type="text"
+                inputMode="numeric"
+                value={form.sizeBytes}
+                onChange={(event) => updateField('sizeBytes', event.target.value)}
+                placeholder="Ex: 1181116006"
+              />
+            </label>
+
+            <label>
+              Formato do arquivo
+              <select
+                value={form.archiveFormat}
+                onChange={(event) => updateField('archiveFormat', event.target.value)}
+              >
+                <option value="">Detectar automaticamente</option>
+                {ARCHIVE_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {ARCHIVE_FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
 
           {error ? <p className="modal__error">{error}</p> : null}
@@ -1,8 +1,12 @@
 import React, { useMemo, useState } from 'react';
 
 import { useGameStore } from '../state/GameStore';
-import { StoreDownloadStatus } from '../types';
+import { useSettings } from '../state/SettingsStore';
+import { BandwidthSchedule, ShortcutLocation, StoreDownloadStatus } from '../types';
+import { formatDuration } from '../utils/formatDuration';
 import { FeedbackToast } from './common/FeedbackToast';
+import { ExecutableChoiceModal } from './ExecutableChoiceModal';
+import { LibraryFoldersModal } from './LibraryFoldersModal';
 
 interface DownloadsViewProps {
   searchTerm: string;
@@ -18,20 +22,59 @@ const formatBytes = (bytes?: number, fractionDigits = 1) => {
   return `${value.toFixed(fractionDigits)} ${units[order]}`;
 };
 
-const getStateLabel = (state: StoreDownloadStatus['state']) => {
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 5];
+
+const CHUNK_ATTEMPT_OPTIONS = [1, 3, 5, 8, 10];
+
+const BANDWIDTH_OPTIONS = [0, 512, 1024, 2048, 5120, 10240, 20480].map((kilobytes) => kilobytes * 1024);
+
+const MIRROR_SPEED_OPTIONS = [0, 20, 50, 100, 500, 1024].map((kilobytes) => kilobytes * 1024);
+
+const START_MENU_LABEL = window.electronAPI?.platform === 'win32' ? 'Menu Iniciar' : 'Menu de aplicativos';
+
+const INSTALL_SHORTCUT_OPTIONS: Array<{ value: ShortcutLocation[]; label: string }> = [
+  { value: [], label: 'Não criar' },
+  { value: ['desktop'], label: 'Área de trabalho' },
+  { value: ['startMenu'], label: START_MENU_LABEL },
+  { value: ['desktop', 'startMenu'], label: `Área de trabalho e ${START_MENU_LABEL.toLowerCase()}` },
+];
+
+const getHostLabel = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+const formatBandwidthOption = (bytesPerSecond: number) =>
+  bytesPerSecond === 0 ? 'Sem limite' : `${formatBytes(bytesPerSecond, 0)}/s`;
+
+const withCurrentOption = (value: number) =>
+  BANDWIDTH_OPTIONS.includes(value) ? BANDWIDTH_OPTIONS : [...BANDWIDTH_OPTIONS, value].sort((a, b) => a - b);
+
+const getStateLabel = (state: StoreDownloadStatus['state'], queuePosition?: number) => {
   switch (state) {
     case 'queued':
-      return 'Na fila';
+      return queuePosition ? `Na fila (#${queuePosition})` : 'Na fila';
     case 'downloading':
       return 'Baixando';
+    case 'verifying':
+      return 'Verificando';
     case 'extracting':
       return 'Extraindo';
     case 'ready':
       return 'Concluído';
     case 'cancelled':
       return 'Cancelado';
+    case 'paused':
+      return 'Pausado';
+    case 'interrupted':
+      return 'Interrompido';
     case 'awaitingExtraction':
       return '';
+    case 'awaitingExecutableChoice':
+      return 'Escolha o executável';
     default:
       return 'Idle';
   }
@@ -54,8 +97,16 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
     removeDownloadRecord,
     clearDownloadRecords,
     resumeExtraction,
+    pauseStoreDownload,
+    resumeStoreDownload,
+    moveQueuedDownload,
+    prioritizeDownload,
+    setDownloadLimit,
   } = useGameStore();
+  const { settings, updateSettings } = useSettings();
   const [toast, setToast] = useState<string | null>(null);
+  const [showLibraryFolders, setShowLibraryFolders] = useState(false);
+  const [executableChoiceId, setExecutableChoiceId] = useState<string | null>(null);
   const lowerTerm = searchTerm.trim().toLowerCase();
 
   const entries = useMemo(() => {
@@ -72,7 +123,12 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
       .map((record) => {
         const liveStatus = storeMap.get(record.gameId)?.downloadStatus;
         const liveState = liveStatus?.state;
-        const activeStates: Array<StoreDownloadStatus['state']> = ['queued', 'downloading', 'extracting'];
+        const activeStates: Array<StoreDownloadStatus['state']> = [
+          'queued',
+          'downloading',
+          'verifying',
+          'extracting',
+        ];
         const isActive = Boolean(liveState && activeStates.includes(liveState));
         const status: StoreDownloadStatus['state'] = liveState ?? record.state;
 
@@ -81,15 +137,22 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
             switch (liveStatus.state) {
               case 'downloading':
                 return liveStatus.received;
+              case 'verifying':
+                return liveStatus.received;
               case 'extracting':
                 return liveStatus.received;
               default:
                 return record.sizeBytes;
             }
           }
-          if (status === 'awaitingExtraction') {
+          if (status === 'awaitingExtraction' || status === 'awaitingExecutableChoice') {
             return record.sizeBytes;
           }
+          if (status === 'paused' || status === 'interrupted') {
+            return liveStatus?.state === 'paused' || liveStatus?.state === 'interrupted'
+              ? liveStatus.received
+              : record.receivedBytes;
+          }
           return record.sizeBytes;
         })();
         const total = isActive
@@ -97,18 +160,29 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
             ? liveStatus.total
             : liveStatus?.state === 'ready'
               ? liveStatus.totalBytes
-              : liveStatus?.state === 'extracting'
+              : liveStatus?.state === 'extracting' || liveStatus?.state === 'verifying'
                 ? liveStatus.total
                 : undefined
           : record.sizeBytes;
         const speed = isActive && liveStatus?.state === 'downloading' ? liveStatus.speed : undefined;
+        const queuePosition = liveStatus?.state === 'queued' ? liveStatus.position : undefined;
+        const retryable = liveStatus?.state === 'failed' && Boolean(liveStatus.retryable);
+        const extraction = isActive && liveStatus?.state === 'extracting' ? liveStatus : undefined;
 
         const progressValue = (() => {
           if (isActive && liveStatus?.state === 'downloading' && liveStatus.total) {
             return Math.floor((liveStatus.received / liveStatus.total) * 100);
           }
+          if (isActive && liveStatus?.state === 'verifying' && liveStatus.total) {
+            return Math.floor((liveStatus.received / liveStatus.total) * 100);
+          }
           if (isActive && liveStatus?.state === 'extracting') {
-            return 100;
+            return liveStatus.total
+              ? Math.floor(((liveStatus.received ?? 0) / liveStatus.total) * 100)
+              : undefined;
+          }
+          if ((status === 'paused' || status === 'interrupted') && received && total) {
+            return Math.floor((received / total) * 100);
           }
           return undefined;
         })();
@@ -120,14 +194,182 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
           total,
           speed,
           progressValue,
+          queuePosition,
+          retryable,
+          extraction,
         };
       });
   }, [downloadRecords, storeGames, lowerTerm]);
 
+  const handleConcurrencyChange = async (value: number) => {
+    const result = await updateSettings({ maxConcurrentDownloads: value });
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível salvar a configuração.');
+    }
+  };
+
+  const handleChunkAttemptsChange = async (value: number) => {
+    const result = await updateSettings({ maxChunkAttempts: value });
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível salvar a configuração.');
+    }
+  };
+
+  const handleBandwidthChange = async (value: number) => {
+    const result = await updateSettings({ bandwidthLimit: value });
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível salvar a configuração.');
+    }
+  };
+
+  const handleMirrorSpeedChange = async (value: number) => {
+    const result = await updateSettings({ minMirrorSpeed: value });
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível salvar a configuração.');
+    }
+  };
+
+  const handleScheduleChange = async (patch: Partial<BandwidthSchedule>) => {
+    const result = await updateSettings({
+      unlimitedSchedule: { ...settings.unlimitedSchedule, ...patch },
+    });
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível salvar a configuração.');
+    }
+  };
+
+  const handleInstallShortcutsChange = async (value: string) => {
+    const result = await updateSettings({
+      installShortcuts: value ? (value.split(',') as ShortcutLocation[]) : [],
+    });
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível salvar a configuração.');
+    }
+  };
+
+  const settingsBar = (
+    <div className="downloads-settings">
+      <label className="downloads-settings__field">
+        Downloads simultâneos
+        <select
+          value={settings.maxConcurrentDownloads}
+          onChange={(event) => handleConcurrencyChange(Number(event.target.value))}
+        >
+          {CONCURRENCY_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="downloads-settings__field">
+        Tentativas por trecho
+        <select
+          value={settings.maxChunkAttempts}
+          onChange={(event) => handleChunkAttemptsChange(Number(event.target.value))}
+        >
+          {(CHUNK_ATTEMPT_OPTIONS.includes(settings.maxChunkAttempts)
+            ? CHUNK_ATTEMPT_OPTIONS
+            : [...CHUNK_ATTEMPT_OPTIONS, settings.maxChunkAttempts].sort((a, b) => a - b)
+          ).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="downloads-settings__field">
+        Limite de velocidade
+        <select
+          value={settings.bandwidthLimit}
+          onChange={(event) => handleBandwidthChange(Number(event.target.value))}
+        >
+          {withCurrentOption(settings.bandwidthLimit).map((option) => (
+            <option key={option} value={option}>
+              {formatBandwidthOption(option)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="downloads-settings__field">
+        Trocar de espelho abaixo de
+        <select
+          value={settings.minMirrorSpeed}
+          onChange={(event) => handleMirrorSpeedChange(Number(event.target.value))}
+        >
+          {(MIRROR_SPEED_OPTIONS.includes(settings.minMirrorSpeed)
+            ? MIRROR_SPEED_OPTIONS
+            : [...MIRROR_SPEED_OPTIONS, settings.minMirrorSpeed].sort((a, b) => a - b)
+          ).map((option) => (
+            <option key={option} value={option}>
+              {option === 0 ? 'Nunca' : `${formatBytes(option, 0)}/s`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="downloads-settings__field downloads-settings__field--inline">
+        <input
+          type="checkbox"
+          checked={settings.unlimitedSchedule.enabled}
+          onChange={(event) => handleScheduleChange({ enabled: event.target.checked })}
+        />
+        Sem limite entre
+        <input
+          type="time"
+          value={settings.unlimitedSchedule.start}
+          disabled={!settings.unlimitedSchedule.enabled}
+          onChange={(event) => event.target.value && handleScheduleChange({ start: event.target.value })}
+        />
+        e
+        <input
+          type="time"
+          value={settings.unlimitedSchedule.end}
+          disabled={!settings.unlimitedSchedule.enabled}
+          onChange={(event) => event.target.value && handleScheduleChange({ end: event.target.value })}
+        />
+      </label>
+      <label className="downloads-settings__field">
+        Atalhos ao instalar
+        <select
+          value={settings.installShortcuts.join(',')}
+          onChange={(event) => handleInstallShortcutsChange(event.target.value)}
+        >
+          {INSTALL_SHORTCUT_OPTIONS.map((option) => (
+            <option key={option.label} value={option.value.join(',')}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        type="button"
+        className="downloads-settings__button"
+        onClick={() => setShowLibraryFolders(true)}
+        title={settings.libraryFolders.join('\n')}
+      >
+        Pastas da biblioteca ({settings.libraryFolders.length})
+      </button>
+      <LibraryFoldersModal open={showLibraryFolders} onClose={() => setShowLibraryFolders(false)} />
+      <ExecutableChoiceModal
+        game={storeGames.find((game) => game.id === executableChoiceId) ?? null}
+        onClose={() => setExecutableChoiceId(null)}
+        onChosen={(game) => setToast(`${game.title} foi instalado e adicionado à biblioteca.`)}
+      />
+    </div>
+  );
+
   if (entries.length === 0) {
     return (
       <div className="view__section">
+        {toast ? <FeedbackToast message={toast} onClose={() => setToast(null)} /> : null}
         <h2 className="view__section-title">Downloads recentes</h2>
+        {settingsBar}
         <p className="app-shell__subheadline">
           Seus downloads aparecerão aqui assim que começarem.
         </p>
@@ -156,6 +398,42 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
     }
   };
 
+  const handlePauseRecord = async (gameId: string) => {
+    const result = await pauseStoreDownload(gameId);
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível pausar o download.');
+    }
+  };
+
+  const handleMoveRecord = async (gameId: string, toIndex: number) => {
+    const result = await moveQueuedDownload(gameId, toIndex);
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível reordenar a fila.');
+    }
+  };
+
+  const handlePrioritizeRecord = async (gameId: string) => {
+    const result = await prioritizeDownload(gameId);
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível priorizar o download.');
+    }
+  };
+
+  const handleLimitRecord = async (gameId: string, bytesPerSecond: number) => {
+    const result = await setDownloadLimit(gameId, bytesPerSecond);
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível alterar o limite do download.');
+    }
+  };
+
+  const handleResumeRecord = async (gameId: string) => {
+    await resumeStoreDownload(gameId);
+  };
+
   const handleExtractRecord = async (gameId: string) => {
     const result = await resumeExtraction(gameId);
     if (!result.success) {
@@ -189,15 +467,21 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
           Limpar histórico
         </button>
       </div>
+      {settingsBar}
       <div className="downloads-list">
-        {entries.map(({ record, status, received, total, speed, progressValue }) => {
+        {entries.map(({ record, status, received, total, speed, progressValue, queuePosition, retryable, extraction }) => {
           const isFocused = focusedGameId && record.gameId === focusedGameId;
           const totalText = total ? formatBytes(total) : '—';
           const receivedText = status === 'ready' ? totalText : formatBytes(received);
           const speedText = speed ? `${formatBytes(speed, 2)}/s` : undefined;
-          const isActiveState = status === 'queued' || status === 'downloading' || status === 'extracting';
+          const isActiveState =
+            status === 'queued' ||
+            status === 'downloading' ||
+            status === 'verifying' ||
+            status === 'extracting';
           const awaitingExtractionState = status === 'awaitingExtraction';
-          const canRemove = !isActiveState && !awaitingExtractionState;
+          const interruptedState = status === 'paused' || status === 'interrupted';
+          const canRemove = !isActiveState && !awaitingExtractionState && !interruptedState;
 
           return (
             <div
@@ -207,7 +491,36 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
               <div className="download-card__header">
                 <h3 className="download-card__title">{record.title}</h3>
                 <div className="download-card__header-actions">
-                  <span className="download-card__status">{getStateLabel(status)}</span>
+                  <span className="download-card__status">{getStateLabel(status, queuePosition)}</span>
+                  {queuePosition ? (
+                    <>
+                      <button
+                        type="button"
+                        className="download-card__remove"
+                        onClick={() => handlePrioritizeRecord(record.gameId)}
+                        disabled={queuePosition === 1}
+                      >
+                        Priorizar
+                      </button>
+                      <button
+                        type="button"
+                        className="download-card__remove"
+                        onClick={() => handleMoveRecord(record.gameId, queuePosition - 2)}
+                        disabled={queuePosition === 1}
+                        aria-label="Subir na fila"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="download-card__remove"
+                        onClick={() => handleMoveRecord(record.gameId, queuePosition)}
+                        aria-label="Descer na fila"
+                      >
+                        ↓
+                      </button>
+                    </>
+                  ) : null}
                   {awaitingExtractionState ? (
                     <>
                       <button
@@ -226,6 +539,56 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
                       </button>
                     </>
                   ) : null}
+                  {status === 'awaitingExecutableChoice' ? (
+                    <button
+                      type="button"
+                      className="download-card__remove"
+                      onClick={() => setExecutableChoiceId(record.gameId)}
+                    >
+                      Escolher executável
+                    </button>
+                  ) : null}
+                  {interruptedState ? (
+                    <>
+                      <button
+                        type="button"
+                        className="download-card__remove"
+                        onClick={() => handleResumeRecord(record.gameId)}
+                      >
+                        Retomar
+                      </button>
+                      <button
+                        type="button"
+                        className="download-card__remove"
+                        onClick={() => handleCancelRecord(record.gameId)}
+                      >
+                        Cancelar
+                      </button>
+                    </>
+                  ) : null}
+                  {status === 'downloading' || status === 'queued' || interruptedState ? (
+                    <select
+                      className="download-card__limit"
+                      value={record.bandwidthLimit ?? 0}
+                      onChange={(event) => handleLimitRecord(record.gameId, Number(event.target.value))}
+                      aria-label="Limite de velocidade deste download"
+                    >
+                      {withCurrentOption(record.bandwidthLimit ?? 0).map((option) => (
+                        <option key={option} value={option}>
+                          {formatBandwidthOption(option)}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                  {status === 'downloading' ? (
+                    <button
+                      type="button"
+                      className="download-card__remove"
+                      onClick={() => handlePauseRecord(record.gameId)}
+                    >
+                      Pausar
+                    </button>
+                  ) : null}
                   {isActiveState ? (
                     <button
                       type="button"
@@ -235,6 +598,15 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
                       Cancelar
                     </button>
                   ) : null}
+                  {retryable ? (
+                    <button
+                      type="button"
+                      className="download-card__remove"
+                      onClick={() => handleResumeRecord(record.gameId)}
+                    >
+                      Tentar novamente
+                    </button>
+                  ) : null}
                   {canRemove ? (
                     <button
                       type="button"
@@ -247,7 +619,10 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
                 </div>
               </div>
 
-              {status === 'downloading' || status === 'extracting' ? (
+              {status === 'downloading' ||
+              status === 'verifying' ||
+              status === 'extracting' ||
+              interruptedState ? (
                 <div className="download-card__progress">
                   <div className="download-card__progress-bar">
                     <div
@@ -257,8 +632,12 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
                   </div>
                   <span className="download-card__progress-text">
                     {status === 'extracting'
-                      ? 'Extraindo'
-                      : progressValue !== undefined
+                      ? progressValue !== undefined
+                        ? `Extraindo ${progressValue}%`
+                        : 'Extraindo'
+                      : status === 'verifying'
+                        ? `Verificando ${progressValue ?? 0}%`
+                        : progressValue !== undefined
                         ? `${progressValue}%`
                         : '—'}
                   </span>
@@ -271,6 +650,23 @@ export const DownloadsView: React.FC<DownloadsViewProps> = ({
                   {total ? ` / ${totalText}` : ''}
                 </span>
                 {speedText ? <span>{speedText}</span> : null}
+                {extraction?.entriesTotal ? (
+                  <span>
+                    Arquivos: {extraction.entriesProcessed ?? 0} / {extraction.entriesTotal}
+                  </span>
+                ) : null}
+                {extraction?.eta !== undefined ? (
+                  <span>Tempo restante: ~{formatDuration(extraction.eta)}</span>
+                ) : null}
+                {record.partCount ? (
+                  <span>
+                    Parte: {record.currentPart ?? 1} / {record.partCount}
+                  </span>
+                ) : null}
+                {record.retryCount ? <span>Trechos repetidos: {record.retryCount}</span> : null}
+                {record.mirrorUrl && record.mirrorUrl !== record.sourceUrl ? (
+                  <span>Espelho usado: {getHostLabel(record.mirrorUrl)}</span>
+                ) : null}
                 <span>Iniciado: {formatDateTime(record.startedAt)}</span>
                 {record.finishedAt ? <span>Finalizado: {formatDateTime(record.finishedAt)}</span> : null}
                 {record.installDirectory ? (
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+
+import { useGameStore } from '../state/GameStore';
+import { StoreGame } from '../types';
+
+interface ExecutableChoiceModalProps {
+  game: StoreGame | null;
+  onClose: () => void;
+  onChosen?: (game: StoreGame) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes <= 0) return '0 MB';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const order = Math.floor(Math.log(bytes) / Math.log(1024));
+  return `${(bytes / 1024 ** order).toFixed(1)} ${units[order]}`;
+};
+
+export const ExecutableChoiceModal: React.FC<ExecutableChoiceModalProps> = ({ game, onClose, onChosen }) => {
+  const { chooseExecutable } = useGameStore();
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setError(null);
+    setSaving(false);
+  }, [game?.id]);
+
+  const status = game?.downloadStatus;
+
+  if (!game || status?.state !== 'awaitingExecutableChoice') {
+    return null;
+  }
+
+  const handleChoose = async (executablePath: string) => {
+    setSaving(true);
+    const result = await chooseExecutable(game.id, executablePath);
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.message ?? 'Não foi possível usar esse executável.');
+      return;
+    }
+
+    onChosen?.(game);
+    onClose();
+  };
+
+  const handleBrowse = async () => {
+    const api = window.electronAPI;
+    if (!api?.selectExecutable) {
+      setError('Seleção de arquivos não suportada neste ambiente.');
+      return;
+    }
+
+    const result = await api.selectExecutable();
+    if (!result.canceled) {
+      await handleChoose(result.filePath);
+    }
+  };
+
+  return (
+    <div className="modal modal--visible" role="dialog" aria-modal="true">
+      <div className="modal__backdrop" onClick={onClose} />
+      <div className="modal__container">
+        <header className="modal__header">
+          <div>
+            <h2>Qual executável inicia {game.title}?</h2>
+            <p>Encontramos mais de um candidato em {status.installDirectory}. Escolha o que abre o jogo.</p>
+          </div>
+          <button
+            type="button"
+            className="modal__close"
+            onClick={onClose}
+            aria-label="Fechar modal"
+          >
+            ×
+          </button>
+        </header>
+
+        <ul className="executable-choice">
+          {status.candidates.map((candidate, index) => (
+            <li
+              key={candidate.path}
+              className={`executable-choice__item${index === 0 ? ' executable-choice__item--recommended' : ''}`}
+            >
+              <div className="executable-choice__info">
+                <strong title={candidate.path}>{candidate.relativePath}</strong>
+                <span>
+                  {formatBytes(candidate.size)}
+                  {index === 0 ? ' · Recomendado' : ''}
+                </span>
+              </div>
+              <button
+                type="button"
+                className={index === 0 ? 'modal__primary' : 'modal__secondary'}
+                disabled={saving}
+                onClick={() => handleChoose(candidate.path)}
+              >
+                Usar este
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {error ? <p className="modal__error">{error}</p> : null}
+
+        <footer className="modal__footer">
+          <button type="button" className="modal__secondary" disabled={saving} onClick={handleBrowse}>
+            Escolher outro arquivo...
+          </button>
+          <button type="button" className="modal__secondary" onClick={onClose}>
+            Decidir depois
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,638 @@
+import React, { useEffect, useState } from 'react';
+
+import { useGameStore } from '../state/GameStore';
+import {
+  GameEntry,
+  GameHook,
+  GameHooks,
+  GameRunner,
+  LaunchProfile,
+  RunnerInstallation,
+  RunnerKind,
+  ShortcutLocation,
+  ShortcutTarget,
+} from '../types';
+import { formatEnvLines, formatLaunchArgs, parseEnvLines, parseLaunchArgs } from '../utils/launchProfiles';
+
+interface GameSettingsModalProps {
+  game: GameEntry | null;
+  onClose: () => void;
+}
+
+const RUNNER_OPTIONS: Array<{ value: RunnerKind; label: string }> = [
+  { value: 'auto', label: 'Automático' },
+  { value: 'native', label: 'Nativo' },
+  { value: 'wine', label: 'Wine' },
+  { value: 'proton', label: 'Proton' },
+];
+
+const DEFAULT_RUNNER: GameRunner = { kind: 'auto' };
+
+type ProfileDraft = {
+  id: string;
+  name: string;
+  args: string;
+  cwd: string;
+  env: string;
+};
+
+const createProfileDraft = (name: string): ProfileDraft => ({
+  id: globalThis.crypto.randomUUID(),
+  name,
+  args: '',
+  cwd: '',
+  env: '',
+});
+
+const toProfileDraft = (profile: LaunchProfile): ProfileDraft => ({
+  id: profile.id,
+  name: profile.name,
+  args: formatLaunchArgs(profile.args),
+  cwd: profile.cwd ?? '',
+  env: formatEnvLines(profile.env),
+});
+
+type HookPhase = keyof GameHooks;
+
+type HookDraft = {
+  command: string;
+  args: string;
+  timeoutSeconds: string;
+  abortOnFailure: boolean;
+  background: boolean;
+};
+
+const HOOK_LABELS: Record<HookPhase, string> = {
+  preLaunch: 'Script antes de iniciar',
+  postExit: 'Script após fechar o jogo',
+};
+
+const toHookDraft = (hook?: GameHook): HookDraft => ({
+  command: hook?.command ?? '',
+  args: formatLaunchArgs(hook?.args ?? []),
+  timeoutSeconds: String(hook?.timeoutSeconds ?? 60),
+  abortOnFailure: hook?.abortOnFailure ?? true,
+  background: hook?.background ?? false,
+});
+
+const fromHookDraft = (phase: HookPhase, draft: HookDraft): GameHook | undefined => {
+  const command = draft.command.trim();
+
+  if (!command) {
+    return undefined;
+  }
+
+  return {
+    command,
+    args: parseLaunchArgs(draft.args),
+    timeoutSeconds: Math.max(1, Math.round(Number(draft.timeoutSeconds) || 60)),
+    abortOnFailure: phase === 'preLaunch' && draft.abortOnFailure,
+    background: phase === 'preLaunch' && draft.background,
+  };
+};
+
+interface HookFieldsProps {
+  phase: HookPhase;
+  draft: HookDraft;
+  onChange: (patch: Partial<HookDraft>) => void;
+}
+
+const HookFields: React.FC<HookFieldsProps> = ({ phase, draft, onChange }) => {
+  const handlePickCommand = async () => {
+    const result = await window.electronAPI?.selectRunnerBinary?.();
+    if (result && !result.canceled) {
+      onChange({ command: result.filePath });
+    }
+  };
+
+  return (
+    <>
+      <label className="modal__full">
+        {HOOK_LABELS[phase]}
+        <div className="input-with-trigger">
+          <input
+            type="text"
+            value={draft.command}
+            onChange={(event) => onChange({ command: event.target.value })}
+            placeholder="Nenhum"
+          />
+          <button type="button" className="input-with-trigger__button" onClick={handlePickCommand}>
+            Procurar...
+          </button>
+        </div>
+      </label>
+
+      {draft.command.trim() ? (
+        <>
+          <label>
+            Argumentos
+            <input
+              type="text"
+              value={draft.args}
+              onChange={(event) => onChange({ args: event.target.value })}
+            />
+          </label>
+
+          <label>
+            Tempo limite (segundos)
+            <input
+              type="number"
+              min={1}
+              value={draft.timeoutSeconds}
+              onChange={(event) => onChange({ timeoutSeconds: event.target.value })}
+            />
+          </label>
+
+          {phase === 'preLaunch' ? (
+            <>
+              <label className="modal__checkbox">
+                <input
+                  type="checkbox"
+                  checked={draft.abortOnFailure}
+                  onChange={(event) => onChange({ abortOnFailure: event.target.checked })}
+                />
+                Não iniciar o jogo se o script falhar
+              </label>
+
+              <label className="modal__checkbox">
+                <input
+                  type="checkbox"
+                  checked={draft.background}
+                  onChange={(event) => onChange({ background: event.target.checked })}
+                />
+                Deixar rodando em segundo plano
+              </label>
+            </>
+          ) : null}
+        </>
+      ) : null}
+    </>
+  );
+};
+
+export const GameSettingsModal: React.FC<GameSettingsModalProps> = ({ game, onClose }) => {
+  const { updateGame } = useGameStore();
+  const [runner, setRunner] = useState<GameRunner>(DEFAULT_RUNNER);
+  const [profiles, setProfiles] = useState<ProfileDraft[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [activeProfileId, setActiveProfileId] = useState('');
+  const [hooks, setHooks] = useState<Record<HookPhase, HookDraft>>({
+    preLaunch: toHookDraft(),
+    postExit: toHookDraft(),
+  });
+  const [installations, setInstallations] = useState<RunnerInstallation[]>([]);
+  const [shortcutTarget, setShortcutTarget] = useState<ShortcutTarget>('launcher');
+  const [shortcutLocations, setShortcutLocations] = useState<ShortcutLocation[]>(['desktop']);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset only when another game is opened, so edits survive unrelated store updates.
+  const gameId = game?.id;
+  const savedRunner = game?.runner;
+  const savedProfiles = game?.launchProfiles;
+  const savedActiveProfileId = game?.activeLaunchProfileId;
+  const savedHooks = game?.hooks;
+
+  useEffect(() => {
+    const drafts = savedProfiles?.length ? savedProfiles.map(toProfileDraft) : [createProfileDraft('Padrão')];
+    const activeId = drafts.find((draft) => draft.id === savedActiveProfileId)?.id ?? drafts[0].id;
+
+    setRunner(savedRunner ?? DEFAULT_RUNNER);
+    setProfiles(drafts);
+    setSelectedProfileId(activeId);
+    setActiveProfileId(activeId);
+    setHooks({ preLaunch: toHookDraft(savedHooks?.preLaunch), postExit: toHookDraft(savedHooks?.postExit) });
+    setShortcutTarget('launcher');
+    setShortcutLocations(['desktop']);
+    setError(null);
+
+    if (!gameId) {
+      return;
+    }
+
+    window.electronAPI?.listRunners?.().then(setInstallations).catch(() => setInstallations([]));
+  }, [gameId]);
+
+  if (!game) {
+    return null;
+  }
+
+  const isWindows = window.electronAPI?.platform === 'win32';
+  const usesCompatibilityLayer = runner.kind === 'wine' || runner.kind === 'proton';
+  const matchingInstallations = installations.filter((installation) => installation.kind === runner.kind);
+
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId) ?? profiles[0];
+
+  const updateRunner = (patch: Partial<GameRunner>) => {
+    setRunner((current) => ({ ...current, ...patch }));
+    setError(null);
+  };
+
+  const updateProfile = (patch: Partial<ProfileDraft>) => {
+    setProfiles((current) =>
+      current.map((profile) => (profile.id === selectedProfile?.id ? { ...profile, ...patch } : profile)),
+    );
+    setError(null);
+  };
+
+  const updateHook = (phase: HookPhase) => (patch: Partial<HookDraft>) => {
+    setHooks((current) => ({ ...current, [phase]: { ...current[phase], ...patch } }));
+    setError(null);
+  };
+
+  const handleOpenHookLog = async () => {
+    const result = await window.electronAPI?.openHookLog?.(game.id);
+    if (result && !result.success) {
+      setError(result.message ?? 'Não foi possível abrir o log.');
+    }
+  };
+
+  const toggleShortcutLocation = (location: ShortcutLocation, checked: boolean) => {
+    setShortcutLocations((current) =>
+      checked ? [...current, location] : current.filter((item) => item !== location),
+    );
+    setError(null);
+  };
+
+  // Shortcuts are written right away instead of on save; they are files, not game settings.
+  const handleCreateShortcuts = async () => {
+    const api = window.electronAPI;
+
+    if (!api?.createShortcuts || !game.executablePath) {
+      setError('Defina o caminho do executável antes de criar atalhos.');
+      return;
+    }
+
+    if (shortcutLocations.length === 0) {
+      setError('Escolha onde criar o atalho.');
+      return;
+    }
+
+    const result = await api.createShortcuts({
+      gameId: game.id,
+      title: game.title,
+      executablePath: game.executablePath,
+      target: shortcutTarget,
+      locations: shortcutLocations,
+    });
+
+    if (!result.success) {
+      setError(result.message ?? 'Não foi possível criar os atalhos.');
+      return;
+    }
+
+    updateGame(game.id, {
+      shortcuts: Array.from(new Set([...(game.shortcuts ?? []), ...(result.paths ?? [])])),
+    });
+  };
+
+  const handleRemoveShortcuts = async () => {
+    const result = await window.electronAPI?.removeShortcuts?.(game.shortcuts ?? []);
+
+    if (result && !result.success) {
+      setError(result.message ?? 'Não foi possível remover os atalhos.');
+      return;
+    }
+
+    updateGame(game.id, { shortcuts: undefined });
+  };
+
+  const handleAddProfile = () => {
+    const draft = createProfileDraft(`Perfil ${profiles.length + 1}`);
+    setProfiles((current) => [...current, draft]);
+    setSelectedProfileId(draft.id);
+  };
+
+  const handleRemoveProfile = () => {
+    if (!selectedProfile || profiles.length <= 1) {
+      return;
+    }
+
+    const remaining = profiles.filter((profile) => profile.id !== selectedProfile.id);
+    setProfiles(remaining);
+    setSelectedProfileId(remaining[0].id);
+
+    if (activeProfileId === selectedProfile.id) {
+      setActiveProfileId(remaining[0].id);
+    }
+  };
+
+  const handlePickBinary = async () => {
+    const result = await window.electronAPI?.selectRunnerBinary?.();
+    if (result && !result.canceled) {
+      updateRunner({ binaryPath: result.filePath });
+    }
+  };
+
+  const handlePickPrefix = async () => {
+    const result = await window.electronAPI?.selectPrefixFolder?.();
+    if (result && !result.canceled) {
+      updateRunner({ prefixPath: result.folderPath });
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (usesCompatibilityLayer && isWindows) {
+      setError('Wine e Proton só estão disponíveis no Linux.');
+      return;
+    }
+
+    const launchProfiles: LaunchProfile[] = [];
+
+    for (const draft of profiles) {
+      const name = draft.name.trim();
+      const { env, invalid } = parseEnvLines(draft.env);
+
+      if (!name) {
+        setSelectedProfileId(draft.id);
+        setError('Dê um nome a cada perfil de inicialização.');
+        return;
+      }
+
+      if (invalid.length > 0) {
+        setSelectedProfileId(draft.id);
+        setError(`Variável de ambiente inválida em "${name}": ${invalid[0]}. Use NOME=valor.`);
+        return;
+      }
+
+      launchProfiles.push({
+        id: draft.id,
+        name,
+        args: parseLaunchArgs(draft.args),
+        cwd: draft.cwd.trim() || undefined,
+        env,
+      });
+    }
+
+    updateGame(game.id, {
+      runner: {
+        kind: runner.kind,
+        binaryPath: usesCompatibilityLayer ? runner.binaryPath?.trim() || undefined : undefined,
+        prefixPath: usesCompatibilityLayer ? runner.prefixPath?.trim() || undefined : undefined,
+      },
+      launchProfiles,
+      activeLaunchProfileId: activeProfileId,
+      hooks: {
+        preLaunch: fromHookDraft('preLaunch', hooks.preLaunch),
+        postExit: fromHookDraft('postExit', hooks.postExit),
+      },
+    });
+    onClose();
+  };
+
+  return (
+    <div className="modal modal--visible" role="dialog" aria-modal="true">
+      <div className="modal__backdrop" onClick={onClose} />
+      <div className="modal__container">
+        <header className="modal__header">
+          <div>
+            <h2>Configurações de {game.title}</h2>
+            <p>Escolha como o jogo é iniciado neste computador.</p>
+          </div>
+          <button
+            type="button"
+            className="modal__close"
+            onClick={onClose}
+            aria-label="Fechar modal"
+          >
+            ×
+          </button>
+        </header>
+
+        <form className="modal__form" onSubmit={handleSubmit}>
+          <div className="modal__grid">
+            <label className="modal__full">
+              Executor
+              <select
+                value={runner.kind}
+                onChange={(event) => updateRunner({ kind: event.target.value as RunnerKind })}
+              >
+                {RUNNER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {usesCompatibilityLayer ? (
+              <>
+                <label className="modal__full">
+                  {runner.kind === 'wine' ? 'Binário do Wine' : 'Script "proton"'}
+                  <div className="input-with-trigger">
+                    <input
+                      type="text"
+                      list="game-settings-runners"
+                      value={runner.binaryPath ?? ''}
+                      onChange={(event) => updateRunner({ binaryPath: event.target.value })}
+                      placeholder={matchingInstallations[0]?.path ?? 'Detectar automaticamente'}
+                    />
+                    <button
+                      type="button"
+                      className="input-with-trigger__button"
+                      onClick={handlePickBinary}
+                    >
+                      Procurar...
+                    </button>
+                  </div>
+                  <datalist id="game-settings-runners">
+                    {matchingInstallations.map((installation) => (
+                      <option key={installation.path} value={installation.path}>
+                        {installation.name}
+                      </option>
+                    ))}
+                  </datalist>
+                </label>
+
+                <label className="modal__full">
+                  Pasta do prefixo
+                  <div className="input-with-trigger">
+                    <input
+                      type="text"
+                      value={runner.prefixPath ?? ''}
+                      onChange={(event) => updateRunner({ prefixPath: event.target.value })}
+                      placeholder="Uma pasta separada por jogo, criada pelo launcher"
+                    />
+                    <button
+                      type="button"
+                      className="input-with-trigger__button"
+                      onClick={handlePickPrefix}
+                    >
+                      Procurar...
+                    </button>
+                  </div>
+                </label>
+              </>
+            ) : null}
+          </div>
+
+          <p className="modal__hint">
+            {runner.kind === 'auto'
+              ? 'No Linux, arquivos .exe abrem pelo Wine e executáveis nativos (ELF, .sh, AppImage) abrem direto.'
+              : runner.kind === 'native'
+                ? 'O executável é aberto direto pelo sistema.'
+                : matchingInstallations.length === 0
+                  ? `Nenhuma instalação do ${runner.kind === 'wine' ? 'Wine' : 'Proton'} foi encontrada; informe o caminho manualmente.`
+                  : `${matchingInstallations.length} instalação(ões) encontrada(s).`}
+          </p>
+
+          <div className="modal__grid">
+            <label className="modal__full">
+              Perfil de inicialização
+              <div className="input-with-trigger">
+                <select
+                  value={selectedProfile?.id ?? ''}
+                  onChange={(event) => setSelectedProfileId(event.target.value)}
+                >
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name || 'Sem nome'}
+                      {profile.id === activeProfileId ? ' (padrão)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="input-with-trigger__button" onClick={handleAddProfile}>
+                  Novo perfil
+                </button>
+                <button
+                  type="button"
+                  className="input-with-trigger__button"
+                  onClick={handleRemoveProfile}
+                  disabled={profiles.length <= 1}
+                >
+                  Remover
+                </button>
+              </div>
+            </label>
+
+            {selectedProfile ? (
+              <>
+                <label>
+                  Nome
+                  <input
+                    type="text"
+                    value={selectedProfile.name}
+                    onChange={(event) => updateProfile({ name: event.target.value })}
+                    placeholder="Ex: Servidor dedicado"
+                  />
+                </label>
+
+                <label className="modal__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={selectedProfile.id === activeProfileId}
+                    onChange={() => setActiveProfileId(selectedProfile.id)}
+                  />
+                  Usar ao clicar em Jogar
+                </label>
+
+                <label className="modal__full">
+                  Argumentos
+                  <input
+                    type="text"
+                    value={selectedProfile.args}
+                    onChange={(event) => updateProfile({ args: event.target.value })}
+                    placeholder="-dx11 -windowed"
+                  />
+                </label>
+
+                <label className="modal__full">
+                  Pasta de trabalho
+                  <input
+                    type="text"
+                    value={selectedProfile.cwd}
+                    onChange={(event) => updateProfile({ cwd: event.target.value })}
+                    placeholder="Pasta do executável"
+                  />
+                </label>
+
+                <label className="modal__full">
+                  Variáveis de ambiente (uma por linha)
+                  <textarea
+                    value={selectedProfile.env}
+                    onChange={(event) => updateProfile({ env: event.target.value })}
+                    placeholder={'DXVK_HUD=fps\nSteamAppId=480'}
+                    rows={3}
+                  />
+                </label>
+              </>
+            ) : null}
+          </div>
+
+          <div className="modal__grid">
+            <HookFields phase="preLaunch" draft={hooks.preLaunch} onChange={updateHook('preLaunch')} />
+            <HookFields phase="postExit" draft={hooks.postExit} onChange={updateHook('postExit')} />
+          </div>
+
+          <p className="modal__hint">
+            Os scripts rodam na pasta de trabalho do perfil e recebem LAUNCHER_GAME_ID, LAUNCHER_EXECUTABLE e, após
+            fechar, LAUNCHER_EXIT_CODE.{' '}
+            <button type="button" className="modal__link" onClick={handleOpenHookLog}>
+              Ver log dos scripts
+            </button>
+          </p>
+
+          <div className="modal__grid">
+            <label className="modal__full">
+              Atalho abre
+              <select
+                value={shortcutTarget}
+                onChange={(event) => setShortcutTarget(event.target.value as ShortcutTarget)}
+              >
+                <option value="launcher">O launcher (conta o tempo de jogo)</option>
+                <option value="executable">O executável diretamente</option>
+              </select>
+            </label>
+
+            <label className="modal__checkbox">
+              <input
+                type="checkbox"
+                checked={shortcutLocations.includes('desktop')}
+                onChange={(event) => toggleShortcutLocation('desktop', event.target.checked)}
+              />
+              Área de trabalho
+            </label>
+
+            <label className="modal__checkbox">
+              <input
+                type="checkbox"
+                checked={shortcutLocations.includes('startMenu')}
+                onChange={(event) => toggleShortcutLocation('startMenu', event.target.checked)}
+              />
+              {isWindows ? 'Menu Iniciar' : 'Menu de aplicativos'}
+            </label>
+          </div>
+
+          <p className="modal__hint">
+            {game.shortcuts?.length
+              ? `${game.shortcuts.length} atalho(s) criado(s); eles são apagados ao desinstalar o jogo.`
+              : 'Nenhum atalho criado para este jogo.'}{' '}
+            <button type="button" className="modal__link" onClick={handleCreateShortcuts}>
+              Criar atalhos
+            </button>
+            {game.shortcuts?.length ? (
+              <>
+                {' · '}
+                <button type="button" className="modal__link" onClick={handleRemoveShortcuts}>
+                  Remover atalhos
+                </button>
+              </>
+            ) : null}
+          </p>
+
+          {error ? <p className="modal__error">{error}</p> : null}
+
+          <footer className="modal__footer">
+            <button type="button" className="modal__secondary" onClick={onClose}>
+              Cancelar
+            </button>
+            <button type="submit" className="modal__primary">
+              Salvar
+            </button>
+          </footer>
+        </form>
+      </div>
+    </div>
+  );
+};
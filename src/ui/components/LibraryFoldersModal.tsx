@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { useSettings } from '../state/SettingsStore';
+import { LibraryFolderInfo } from '../types';
+
+interface LibraryFoldersModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** When set the modal works as a chooser and each folder gets an "Instalar aqui" action. */
+  onSelect?: (folderPath: string) => void;
+  requiredBytes?: number;
+  title?: string;
+  description?: string;
+  selectLabel?: string;
+  /** Folder that cannot be picked, e.g. the one a game is already installed in. */
+  currentFolder?: string;
+}
+
+const formatBytes = (bytes?: number, fractionDigits = 1) => {
+  if (bytes === undefined || bytes === null) return '0 MB';
+  if (bytes === 0) return '0 MB';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const order = Math.floor(Math.log(bytes) / Math.log(1024));
+  const value = bytes / 1024 ** order;
+  return `${value.toFixed(fractionDigits)} ${units[order]}`;
+};
+
+export const LibraryFoldersModal: React.FC<LibraryFoldersModalProps> = ({
+  open,
+  onClose,
+  onSelect,
+  requiredBytes,
+  title,
+  description,
+  selectLabel = 'Instalar aqui',
+  currentFolder,
+}) => {
+  const { settings, updateSettings, addLibraryFolder, removeLibraryFolder } = useSettings();
+  const [folders, setFolders] = useState<LibraryFolderInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshFolders = useCallback(async () => {
+    const api = window.electronAPI;
+    if (!api?.listLibraryFolders) {
+      return;
+    }
+
+    try {
+      setFolders(await api.listLibraryFolders());
+    } catch (loadError) {
+      console.warn('Falha ao carregar pastas da biblioteca', loadError);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setError(null);
+      return;
+    }
+
+    refreshFolders();
+  }, [open, refreshFolders, settings.libraryFolders, settings.defaultLibraryFolder]);
+
+  if (!open) {
+    return null;
+  }
+
+  const saveDefaultFolder = async (folderPath: string) => {
+    const result = await updateSettings({ defaultLibraryFolder: folderPath });
+    setError(result.success ? null : result.message ?? 'Não foi possível salvar as pastas.');
+  };
+
+  const handleAddFolder = async () => {
+    const result = await addLibraryFolder();
+
+    if (!result.canceled) {
+      setError(result.success ? null : result.message ?? 'Não foi possível adicionar a pasta.');
+    }
+  };
+
+  const handleRemoveFolder = async (folderPath: string) => {
+    if (settings.libraryFolders.length <= 1) {
+      setError('A biblioteca precisa de pelo menos uma pasta.');
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Remover ${folderPath} da biblioteca? Os arquivos já instalados não serão apagados.`,
+    );
+
+    if (confirmed) {
+      const result = await removeLibraryFolder(folderPath);
+      setError(result.success ? null : result.message ?? 'Não foi possível remover a pasta.');
+    }
+  };
+
+  return (
+    <div className="modal modal--visible" role="dialog" aria-modal="true">
+      <div className="modal__backdrop" onClick={onClose} />
+      <div className="modal__container">
+        <header className="modal__header">
+          <div>
+            <h2>{title ?? 'Pastas da biblioteca'}</h2>
+            <p>
+              {description ??
+                (onSelect
+                  ? 'Escolha onde o jogo será baixado e instalado.'
+                  : 'Gerencie as pastas onde os jogos são baixados e instalados.')}
+            </p>
+          </div>
+          <button
+            type="button"
+            className="modal__close"
+            onClick={onClose}
+            aria-label="Fechar modal"
+          >
+            ×
+          </button>
+        </header>
+
+        <ul className="library-folders">
+          {folders.map((folder) => {
+            const lacksSpace =
+              typeof requiredBytes === 'number' &&
+              typeof folder.free === 'number' &&
+              requiredBytes > folder.free;
+
+            return (
+              <li
+                key={folder.path}
+                className={`library-folders__item${folder.isDefault ? ' library-folders__item--default' : ''}`}
+              >
+                <div className="library-folders__info">
+                  <strong>{folder.path}</strong>
+                  <span className={lacksSpace ? 'library-folders__space--low' : undefined}>
+                    {typeof folder.free === 'number'
+                      ? `${formatBytes(folder.free)} livres de ${formatBytes(folder.total)}`
+                      : 'Espaço desconhecido'}
+                    {folder.isDefault ? ' · Padrão' : ''}
+                    {folder.exists ? '' : ' · Será criada'}
+                  </span>
+                </div>
+                <div className="library-folders__actions">
+                  {onSelect ? (
+                    <button
+                      type="button"
+                      className="modal__primary"
+                      disabled={folder.path === currentFolder}
+                      onClick={() => onSelect(folder.path)}
+                    >
+                      {folder.path === currentFolder ? 'Pasta atual' : selectLabel}
+                    </button>
+                  ) : null}
+                  {!folder.isDefault ? (
+                    <button
+                      type="button"
+                      className="modal__secondary"
+                      onClick={() => saveDefaultFolder(folder.path)}
+                    >
+                      Tornar padrão
+                    </button>
+                  ) : null}
+                  {!onSelect ? (
+                    <button
+                      type="button"
+                      className="modal__secondary"
+                      onClick={() => handleRemoveFolder(folder.path)}
+                    >
+                      Remover
+                    </button>
+                  ) : null}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {error ? <p className="modal__error">{error}</p> : null}
+
+        <footer className="modal__footer">
+          <button type="button" className="modal__secondary" onClick={handleAddFolder}>
+            Adicionar pasta
+          </button>
+          <button type="button" className="modal__secondary" onClick={onClose}>
+            {onSelect ? 'Cancelar' : 'Fechar'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
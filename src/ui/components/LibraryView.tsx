@@ -1,22 +1,96 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 
 import { useGameStore } from '../state/GameStore';
-import { GameEntry } from '../types';
+import { GameEntry, InstallationMoveEvent } from '../types';
+import { getParentFolder } from '../utils/getParentFolder';
+import { buildLaunchPayload } from '../utils/launchProfiles';
 import { GameCard } from './common/GameCard';
 import { EmptyState } from './common/EmptyState';
 import { FeedbackToast } from './common/FeedbackToast';
+import { GameSettingsModal } from './GameSettingsModal';
+import { LibraryFoldersModal } from './LibraryFoldersModal';
 
 interface LibraryViewProps {
   searchTerm: string;
   onAddGame?: () => void;
+  focusedGameId?: string | null;
+  /** A confirmed launch request from outside the view (deep link); handled once. */
+  launchRequestId?: string | null;
+  onLaunchRequestHandled?: () => void;
 }
 
 const matchesSearch = (value: string, search: string) =>
   value.toLowerCase().includes(search.toLowerCase());
 
-export const LibraryView: React.FC<LibraryViewProps> = ({ searchTerm, onAddGame }) => {
-  const { games, updateGame, uninstallGame, deleteInstallation } = useGameStore();
+
+const ACTIVE_MOVE_STATES: Array<InstallationMoveEvent['state']> = ['copying', 'verifying', 'removing'];
+
+const withoutMove = (moves: Record<string, InstallationMoveEvent>, gameId: string) => {
+  const next = { ...moves };
+  delete next[gameId];
+  return next;
+};
+
+const describeMove = (move: InstallationMoveEvent) => {
+  switch (move.state) {
+    case 'copying':
+      return 'Copiando arquivos...';
+    case 'verifying':
+      return 'Verificando cópia...';
+    case 'removing':
+      return 'Removendo pasta original...';
+    default:
+      return undefined;
+  }
+};
+
+export const LibraryView: React.FC<LibraryViewProps> = ({
+  searchTerm,
+  onAddGame,
+  focusedGameId,
+  launchRequestId,
+  onLaunchRequestHandled,
+}) => {
+  const { games, runningGames, updateGame, uninstallGame, deleteInstallation, moveInstallation } = useGameStore();
   const [toast, setToast] = useState<string | null>(null);
+  const [moveTarget, setMoveTarget] = useState<GameEntry | null>(null);
+  const [moves, setMoves] = useState<Record<string, InstallationMoveEvent>>({});
+  const [settingsGameId, setSettingsGameId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.onInstallationMoveProgress) {
+      return undefined;
+    }
+
+    return api.onInstallationMoveProgress((event) => {
+      setMoves((current) =>
+        ACTIVE_MOVE_STATES.includes(event.state)
+          ? { ...current, [event.gameId]: event }
+          : withoutMove(current, event.gameId),
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.onGameExited) {
+      return undefined;
+    }
+
+    const unsubscribeExited = api.onGameExited(({ gameId, exitCode }) => {
+      if (exitCode) {
+        const title = games.find((game) => game.id === gameId)?.title ?? 'O jogo';
+        setToast(`${title} foi encerrado com o código ${exitCode}.`);
+      }
+    });
+    const unsubscribeHookFailed = api.onGameHookFailed?.(({ message }) => setToast(message));
+
+    return () => {
+      unsubscribeExited();
+      unsubscribeHookFailed?.();
+    };
+  }, [games]);
 
   const installedGames = useMemo(
     () => games.filter((game) => game.installed),
@@ -42,10 +116,16 @@ export const LibraryView: React.FC<LibraryViewProps> = ({ searchTerm, onAddGame
     }
 
     try {
-      const result = await window.electronAPI?.launchGame(game.executablePath);
+      const result = await window.electronAPI?.launchGame(buildLaunchPayload(game));
 
       if (result?.success) {
-        setToast(`Executando ${game.title}...`);
+        setToast(
+          result.hookWarning
+            ? `Executando ${game.title}... ${result.hookWarning}`
+            : result.tracked === false
+              ? `Executando ${game.title}... O tempo de jogo desta sessão não será contado.`
+              : `Executando ${game.title}...`,
+        );
         updateGame(game.id, {
           lastPlayed: new Date().toISOString(),
         });
@@ -61,6 +141,19 @@ export const LibraryView: React.FC<LibraryViewProps> = ({ searchTerm, onAddGame
     }
   };
 
+  useEffect(() => {
+    if (!launchRequestId) {
+      return;
+    }
+
+    onLaunchRequestHandled?.();
+    const game = installedGames.find((entry) => entry.id === launchRequestId);
+
+    if (game) {
+      handleLaunch(game);
+    }
+  }, [launchRequestId]);
+
   const handleUninstall = (game: GameEntry) => {
     const shouldRemove = window.confirm(
       `Deseja remover ${game.title} da biblioteca? O jogo continuará instalado no seu PC.`,
@@ -93,12 +186,59 @@ export const LibraryView: React.FC<LibraryViewProps> = ({ searchTerm, onAddGame
     }
   };
 
+  const handleMove = async (folderPath: string) => {
+    const game = moveTarget;
+    setMoveTarget(null);
+
+    if (!game) {
+      return;
+    }
+
+    if (runningGames[game.id]) {
+      setToast(`Feche ${game.title} antes de movê-lo.`);
+      return;
+    }
+
+    setMoves((current) => ({ ...current, [game.id]: { gameId: game.id, state: 'copying' } }));
+    const result = await moveInstallation(game.id, folderPath);
+
+    if (result.success) {
+      setToast(result.message ?? `${game.title} foi movido para ${folderPath}.`);
+    } else {
+      setMoves((current) => withoutMove(current, game.id));
+      setToast(result.message ?? 'Falha ao mover o jogo.');
+    }
+  };
+
+  const handleCancelMove = async (game: GameEntry) => {
+    const result = await window.electronAPI?.cancelInstallationMove?.(game.id);
+
+    if (result && !result.success) {
+      setToast(result.message ?? 'Não foi possível cancelar a movimentação.');
+    }
+  };
+
   return (
     <div className="view view--library">
       {toast ? (
         <FeedbackToast message={toast} onClose={() => setToast(null)} />
       ) : null}
 
+      <LibraryFoldersModal
+        open={Boolean(moveTarget)}
+        title={moveTarget ? `Mover ${moveTarget.title}` : undefined}
+        description="O jogo será copiado e verificado antes de a pasta original ser apagada."
+        selectLabel="Mover para cá"
+        currentFolder={moveTarget?.installDirectory ? getParentFolder(moveTarget.installDirectory) : undefined}
+        onSelect={handleMove}
+        onClose={() => setMoveTarget(null)}
+      />
+
+      <GameSettingsModal
+        game={games.find((game) => game.id === settingsGameId) ?? null}
+        onClose={() => setSettingsGameId(null)}
+      />
+
       {onAddGame ? (
         <div className="view__section-header">
           <h2 className="view__section-title">Jogos instalados</h2>
@@ -125,20 +265,43 @@ export const LibraryView: React.FC<LibraryViewProps> = ({ searchTerm, onAddGame
         />
       ) : (
         <div className="game-grid">
-          {filteredGames.map((game) => (
-            <GameCard
-              key={game.id}
-              game={game}
-              variant="library"
-              onPrimaryAction={() => handleLaunch(game)}
-              onTertiaryAction={() => handleUninstall(game)}
-              onQuaternaryAction={() => handleDeleteInstall(game)}
-              primaryLabel="Jogar"
-              tertiaryLabel="Remover da biblioteca"
-              quaternaryLabel="Desinstalar"
-              quaternaryDisabled={!game.installDirectory}
-            />
-          ))}
+          {filteredGames.map((game) => {
+            const move = moves[game.id];
+            const moving = Boolean(move);
+            const playing = Boolean(runningGames[game.id]);
+            const progressValue =
+              move?.total && typeof move.processed === 'number'
+                ? Math.min(100, Math.round((move.processed / move.total) * 100))
+                : undefined;
+
+            return (
+              <GameCard
+                key={game.id}
+                game={game}
+                variant="library"
+                onPrimaryAction={() => handleLaunch(game)}
+                onSecondaryAction={() => (moving ? handleCancelMove(game) : setMoveTarget(game))}
+                onTertiaryAction={() => handleUninstall(game)}
+                onQuaternaryAction={() => handleDeleteInstall(game)}
+                onSettings={() => setSettingsGameId(game.id)}
+                profiles={game.launchProfiles}
+                activeProfileId={game.activeLaunchProfileId}
+                onProfileChange={(profileId) => updateGame(game.id, { activeLaunchProfileId: profileId })}
+                primaryLabel={playing ? 'Jogando' : 'Jogar'}
+                primaryDisabled={moving || playing}
+                playing={playing}
+                focused={game.id === focusedGameId}
+                secondaryLabel={game.installDirectory ? (moving ? 'Cancelar' : 'Mover') : undefined}
+                secondaryDisabled={playing}
+                tertiaryLabel="Remover da biblioteca"
+                tertiaryDisabled={moving}
+                quaternaryLabel="Desinstalar"
+                quaternaryDisabled={!game.installDirectory || moving || playing}
+                progressValue={move?.state === 'removing' ? 100 : progressValue}
+                progressDescription={move ? describeMove(move) : undefined}
+              />
+            );
+          })}
         </div>
       )}
     </div>
@@ -1,10 +1,15 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import { useGameStore } from '../state/GameStore';
+import { useSettings } from '../state/SettingsStore';
 import { StoreDownloadStatus, StoreGame } from '../types';
+import { formatDuration } from '../utils/formatDuration';
+import { sanitizeFileName } from '../utils/sanitizeFileName';
 import { GameCard } from './common/GameCard';
 import { EmptyState } from './common/EmptyState';
 import { FeedbackToast } from './common/FeedbackToast';
+import { ExecutableChoiceModal } from './ExecutableChoiceModal';
+import { LibraryFoldersModal } from './LibraryFoldersModal';
 
 interface StoreViewProps {
   searchTerm: string;
@@ -12,17 +17,15 @@ interface StoreViewProps {
   onShowDownloads: (gameId: string) => void;
   onEditStoreGame?: (game: StoreGame) => void;
   onShowLibrary: (libraryEntryId?: string) => void;
+  focusedGameId?: string | null;
+  /** A confirmed install request from outside the view (deep link); handled once. */
+  installRequestId?: string | null;
+  onInstallRequestHandled?: () => void;
 }
 
 const matchesSearch = (value: string, search: string) =>
   value.toLowerCase().includes(search.toLowerCase());
 
-const sanitizeFileName = (name: string) =>
-  name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '') || `jogo-${Date.now()}`;
-
 const formatBytes = (bytes?: number, fractionDigits = 1) => {
   if (bytes === undefined || bytes === null) return '0 MB';
   if (bytes === 0) return '0 MB';
@@ -32,23 +35,78 @@ const formatBytes = (bytes?: number, fractionDigits = 1) => {
   return `${value.toFixed(fractionDigits)} ${units[order]}`;
 };
 
+const SIZE_UNITS: Record<string, number> = { KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3, TB: 1024 ** 4 };
+
+// Catalog entries usually carry a human label like "30 GB" instead of an exact byte count.
+const parseSizeLabel = (size?: string) => {
+  const match = size?.match(/([\d.,]+)\s*(KB|MB|GB|TB)/i);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const value = Number(match[1].replace(',', '.'));
+  return Number.isFinite(value) ? Math.round(value * SIZE_UNITS[match[2].toUpperCase()]) : undefined;
+};
+
+const getArchiveBytes = (game: StoreGame) => {
+  const parts = game.downloadParts;
+
+  if (parts?.length && parts.every((part) => part.sizeBytes)) {
+    return parts.reduce((sum, part) => sum + (part.sizeBytes ?? 0), 0);
+  }
+
+  return parts?.length ? parseSizeLabel(game.size) : game.sizeBytes ?? parseSizeLabel(game.size);
+};
+
+// The archive stays on disk until extraction ends, and the install is at least as big, as main checks too.
+const getRequiredBytes = (game: StoreGame) => {
+  const archive = getArchiveBytes(game);
+  return archive ? archive * 2 : undefined;
+};
+
 const describeStatus = (status?: StoreDownloadStatus) => {
   if (!status) return undefined;
 
   switch (status.state) {
     case 'queued':
-      return 'Na fila para download';
+      return status.position
+        ? `Na fila para download (posição ${status.position})`
+        : 'Na fila para download';
     case 'downloading': {
       const received = formatBytes(status.received);
       const total = status.total ? formatBytes(status.total) : undefined;
       const speed = status.speed ? `${formatBytes(status.speed, 2)}/s` : undefined;
-      const parts = [received, total ? `de ${total}` : null, speed ? `(${speed})` : null]
+      const part = status.partCount ? `Parte ${status.part} de ${status.partCount} ·` : null;
+      const parts = [part, received, total ? `de ${total}` : null, speed ? `(${speed})` : null]
         .filter(Boolean)
         .join(' ');
       return parts || 'Baixando...';
     }
-    case 'extracting':
-      return 'Extraindo arquivos...';
+    case 'verifying': {
+      const percent = status.total ? ` (${Math.floor((status.received / status.total) * 100)}%)` : '';
+      const target = status.partCount ? `da parte ${status.part} de ${status.partCount}` : 'do arquivo';
+      return `Verificando integridade ${target}${percent}...`;
+    }
+    case 'extracting': {
+      const entries = status.entriesTotal
+        ? ` (${status.entriesProcessed ?? 0} de ${status.entriesTotal} arquivos)`
+        : '';
+      const eta = status.eta !== undefined ? ` · ~${formatDuration(status.eta)} restantes` : '';
+      return `Extraindo arquivos${entries}...${eta}`;
+    }
+    case 'paused': {
+      const received = formatBytes(status.received);
+      const total = status.total ? ` de ${formatBytes(status.total)}` : '';
+      return `Download pausado (${received}${total}).`;
+    }
+    case 'interrupted': {
+      const received = formatBytes(status.received);
+      const total = status.total ? ` de ${formatBytes(status.total)}` : '';
+      return status.message
+        ? `Download interrompido (${received}${total}): ${status.message}`
+        : `Download interrompido (${received}${total}).`;
+    }
     case 'ready':
       return undefined;
     case 'failed':
@@ -56,7 +114,9 @@ const describeStatus = (status?: StoreDownloadStatus) => {
     case 'cancelled':
       return status.message ?? undefined;
     case 'awaitingExtraction':
-      return undefined;
+      return status.message;
+    case 'awaitingExecutableChoice':
+      return `Encontramos ${status.candidates.length} executáveis. Escolha qual inicia o jogo.`;
     default:
       return undefined;
   }
@@ -68,10 +128,15 @@ export const StoreView: React.FC<StoreViewProps> = ({
   onShowDownloads,
   onEditStoreGame,
   onShowLibrary,
+  focusedGameId,
+  installRequestId,
+  onInstallRequestHandled,
 }) => {
   const {
     storeGames,
     startStoreDownload,
+    pauseStoreDownload,
+    resumeStoreDownload,
     removeStoreGame,
     resumeExtraction,
     games,
@@ -82,8 +147,28 @@ export const StoreView: React.FC<StoreViewProps> = ({
     writeStoreCatalogFile,
   } = useGameStore();
   const [toast, setToast] = useState<string | null>(null);
+  const { settings } = useSettings();
+  const [diskSpace, setDiskSpace] = useState<{ path: string; free: number } | null>(null);
+  const [folderChoiceGame, setFolderChoiceGame] = useState<StoreGame | null>(null);
+  const [executableChoiceId, setExecutableChoiceId] = useState<string | null>(null);
   const lastStatusesRef = useRef<Record<string, StoreDownloadStatus['state']>>({});
 
+  const refreshDiskSpace = useCallback(async () => {
+    const api = window.electronAPI;
+    if (!api?.getDiskSpace) {
+      return;
+    }
+
+    const result = await api.getDiskSpace();
+    if (result.success && result.path && typeof result.free === 'number') {
+      setDiskSpace({ path: result.path, free: result.free });
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDiskSpace();
+  }, [refreshDiskSpace, settings.defaultLibraryFolder]);
+
   const filteredGames = useMemo(() => {
     const term = searchTerm.trim();
 
@@ -110,8 +195,14 @@ export const StoreView: React.FC<StoreViewProps> = ({
       const previousState = lastStatuses[game.id];
 
       if (previousState !== currentState) {
+        if (previousState && ['ready', 'failed', 'cancelled', 'idle'].includes(currentState)) {
+          refreshDiskSpace();
+        }
+
         if (currentState === 'ready') {
           setToast(`${game.title} foi instalado e adicionado à biblioteca.`);
+        } else if (previousState && currentState === 'awaitingExecutableChoice') {
+          setExecutableChoiceId(game.id);
         } else if (currentState === 'failed' && game.downloadStatus?.message) {
           setToast(game.downloadStatus.message);
         }
@@ -119,7 +210,24 @@ export const StoreView: React.FC<StoreViewProps> = ({
         lastStatuses[game.id] = currentState;
       }
     });
-  }, [filteredGames]);
+  }, [filteredGames, refreshDiskSpace]);
+
+  const describeSpace = (game: StoreGame) => {
+    if (!diskSpace) {
+      return undefined;
+    }
+
+    const required = getRequiredBytes(game);
+    const freeText = `${formatBytes(diskSpace.free)} livres`;
+
+    if (!required) {
+      return `Espaço: ${freeText}`;
+    }
+
+    return required > diskSpace.free
+      ? `Espaço insuficiente: ~${formatBytes(required)} necessários para baixar e extrair, ${freeText}`
+      : `Espaço: ~${formatBytes(required)} necessários para baixar e extrair, ${freeText}`;
+  };
 
   const handleDownload = async (game: StoreGame) => {
     const status = game.downloadStatus;
@@ -129,15 +237,71 @@ export const StoreView: React.FC<StoreViewProps> = ({
       return;
     }
 
-    if (status && ['queued', 'downloading', 'extracting'].includes(status.state)) {
+    if (status?.state === 'awaitingExecutableChoice') {
+      setExecutableChoiceId(game.id);
+      return;
+    }
+
+    if (status?.state === 'paused' || status?.state === 'interrupted') {
+      await resumeStoreDownload(game.id);
+      return;
+    }
+
+    if (status && ['queued', 'downloading', 'verifying', 'extracting'].includes(status.state)) {
       onShowDownloads(game.id);
       return;
     }
 
-    const sanitizedName = sanitizeFileName(game.title);
-    const fileName = sanitizedName.endsWith('.zip') ? sanitizedName : `${sanitizedName}.zip`;
+    if (settings.libraryFolders.length > 1) {
+      setFolderChoiceGame(game);
+      return;
+    }
+
+    await startDownloadIn(game, settings.defaultLibraryFolder || undefined);
+  };
+
+  const startDownloadIn = async (game: StoreGame, libraryFolder?: string) => {
+    const required = getRequiredBytes(game);
+    const space = libraryFolder ? await window.electronAPI?.getDiskSpace?.(libraryFolder) : undefined;
+    const target =
+      space?.success && space.path && typeof space.free === 'number'
+        ? { path: space.path, free: space.free }
+        : diskSpace;
+
+    if (required && target && required > target.free) {
+      const proceed = window.confirm(
+        `${game.title} precisa de ~${formatBytes(required)}, mas há apenas ${formatBytes(target.free)} livres em ${target.path}. Baixar mesmo assim?`,
+      );
+
+      if (!proceed) {
+        return;
+      }
+    }
 
-    await startStoreDownload(game.id, game.downloadUrl, fileName);
+    // Main appends the archive extension from the catalog hint.
+    await startStoreDownload(game.id, game.downloadUrl, sanitizeFileName(game.title), libraryFolder);
+  };
+
+  useEffect(() => {
+    if (!installRequestId) {
+      return;
+    }
+
+    onInstallRequestHandled?.();
+    const game = storeGames.find((entry) => entry.id === installRequestId);
+
+    if (game) {
+      handleDownload(game);
+    }
+  }, [installRequestId]);
+
+  const handleFolderChosen = async (folderPath: string) => {
+    const game = folderChoiceGame;
+    setFolderChoiceGame(null);
+
+    if (game) {
+      await startDownloadIn(game, folderPath);
+    }
   };
 
   const handleRemove = (game: StoreGame) => {
@@ -146,7 +310,7 @@ export const StoreView: React.FC<StoreViewProps> = ({
       return;
     }
 
-    if (game.downloadStatus?.state && ['downloading', 'queued', 'extracting'].includes(game.downloadStatus.state)) {
+    if (game.downloadStatus?.state && ['downloading', 'queued', 'verifying', 'extracting'].includes(game.downloadStatus.state)) {
       setToast('Finalize ou cancele o download antes de remover o jogo.');
       return;
     }
@@ -176,6 +340,16 @@ export const StoreView: React.FC<StoreViewProps> = ({
     }
   };
 
+  const handlePause = async (game: StoreGame) => {
+    const result = await pauseStoreDownload(game.id);
+
+    if (!result.success) {
+      setToast(result.message ?? 'Não foi possível pausar o download.');
+    } else {
+      setToast(`${game.title} pausado.`);
+    }
+  };
+
   const handleExtract = async (game: StoreGame) => {
     const response = await resumeExtraction(game.id);
 
@@ -192,6 +366,19 @@ export const StoreView: React.FC<StoreViewProps> = ({
         <FeedbackToast message={toast} onClose={() => setToast(null)} />
       ) : null}
 
+      <LibraryFoldersModal
+        open={Boolean(folderChoiceGame)}
+        title={folderChoiceGame ? `Instalar ${folderChoiceGame.title}` : undefined}
+        requiredBytes={folderChoiceGame ? getRequiredBytes(folderChoiceGame) : undefined}
+        onSelect={handleFolderChosen}
+        onClose={() => setFolderChoiceGame(null)}
+      />
+
+      <ExecutableChoiceModal
+        game={storeGames.find((game) => game.id === executableChoiceId) ?? null}
+        onClose={() => setExecutableChoiceId(null)}
+      />
+
       <div className="view__section">
         <div className="view__section-header">
           <h2 className="view__section-title">Catálogo</h2>
@@ -273,8 +460,11 @@ export const StoreView: React.FC<StoreViewProps> = ({
               const isActive =
                 status?.state === 'queued' ||
                 status?.state === 'downloading' ||
+                status?.state === 'verifying' ||
                 status?.state === 'extracting';
               const awaitingExtraction = status?.state === 'awaitingExtraction';
+              const awaitingExecutableChoice = status?.state === 'awaitingExecutableChoice';
+              const interrupted = status?.state === 'paused' || status?.state === 'interrupted';
               const existingLibraryEntry = games.find(
                 (entry) => entry.storeId === game.id && entry.installed,
               );
@@ -285,8 +475,14 @@ export const StoreView: React.FC<StoreViewProps> = ({
                 if (status?.state === 'downloading' && status.total) {
                   return Math.floor((status.received / status.total) * 100);
                 }
-                if (status?.state === 'extracting') {
-                  return 100;
+                if (status?.state === 'verifying' && status.total) {
+                  return Math.floor((status.received / status.total) * 100);
+                }
+                if (status?.state === 'extracting' && status.total) {
+                  return Math.floor(((status.received ?? 0) / status.total) * 100);
+                }
+                if ((status?.state === 'paused' || status?.state === 'interrupted') && status.total) {
+                  return Math.floor((status.received / status.total) * 100);
                 }
                 return undefined;
               })();
@@ -300,8 +496,14 @@ export const StoreView: React.FC<StoreViewProps> = ({
                     return 'Baixando...';
                   case 'queued':
                     return 'Na fila';
+                  case 'verifying':
+                    return 'Verificando';
                   case 'extracting':
                     return 'Extraindo';
+                  case 'paused':
+                    return 'Pausado';
+                  case 'interrupted':
+                    return 'Interrompido';
                   case 'ready':
                     return undefined;
                   case 'cancelled':
@@ -314,7 +516,12 @@ export const StoreView: React.FC<StoreViewProps> = ({
               })();
 
               const showLibraryButton =
-                libraryInstalled && !isActive && !awaitingExtraction && status?.state !== 'cancelled';
+                libraryInstalled &&
+                !isActive &&
+                !awaitingExtraction &&
+                !awaitingExecutableChoice &&
+                !interrupted &&
+                status?.state !== 'cancelled';
 
               const primaryLabel = (() => {
                 if (showLibraryButton) {
@@ -327,14 +534,21 @@ export const StoreView: React.FC<StoreViewProps> = ({
                     return 'Na fila';
                   case 'downloading':
                     return 'Baixando...';
+                  case 'verifying':
+                    return 'Verificando...';
                   case 'extracting':
                     return 'Extraindo...';
                   case 'awaitingExtraction':
                     return 'Extrair';
+                  case 'awaitingExecutableChoice':
+                    return 'Escolher executável';
+                  case 'paused':
+                  case 'interrupted':
+                    return 'Retomar';
                   case 'ready':
                     return 'Baixar';
                   case 'failed':
-                    return 'Baixar';
+                    return status.retryable ? 'Tentar novamente' : 'Baixar';
                   case 'cancelled':
                     return 'Baixar';
                   default:
@@ -369,9 +583,9 @@ export const StoreView: React.FC<StoreViewProps> = ({
                 secondaryAction = () => handleCancel(game);
                 tertiaryLabel = 'Progresso';
                 tertiaryAction = () => onShowDownloads(game.id);
-                quaternaryLabel = undefined;
-                quaternaryAction = undefined;
-              } else if (awaitingExtraction) {
+                quaternaryLabel = status?.state === 'downloading' ? 'Pausar' : undefined;
+                quaternaryAction = status?.state === 'downloading' ? () => handlePause(game) : undefined;
+              } else if (awaitingExtraction || interrupted) {
                 secondaryLabel = 'Cancelar';
                 secondaryAction = () => handleCancel(game);
                 tertiaryLabel = 'Progresso';
@@ -407,9 +621,13 @@ export const StoreView: React.FC<StoreViewProps> = ({
                   quaternaryLabel={quaternaryLabel}
                   quaternaryDisabled={quaternaryLabel ? false : undefined}
                   onQuaternaryAction={quaternaryAction}
+                  focused={game.id === focusedGameId}
                   progressValue={progressValue ?? (status?.state === 'extracting' ? 100 : undefined)}
                   progressText={progressText}
-                  progressDescription={describeStatus(status)}
+                  progressDescription={
+                    describeStatus(status) ??
+                    (isActive || showLibraryButton ? undefined : describeSpace(game))
+                  }
                 />
               );
             })}
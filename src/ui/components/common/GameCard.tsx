@@ -1,5 +1,6 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 
+import { formatDuration } from '../../utils/formatDuration';
 import { formatTag } from '../../utils/formatTag';
 
 type GameCardVariant = 'library' | 'store';
@@ -15,6 +16,8 @@ type GameCardGame = {
   installDate?: string;
   installDirectory?: string;
   executablePath?: string;
+  playtimeSeconds?: number;
+  playSessions?: Array<{ durationSeconds: number }>;
 };
 
 interface GameCardProps {
@@ -35,6 +38,15 @@ interface GameCardProps {
   onSecondaryAction?: () => void;
   onTertiaryAction?: () => void;
   onQuaternaryAction?: () => void;
+  onSettings?: () => void;
+  /** Library cards only: the game has a live process. */
+  playing?: boolean;
+  /** Highlighted and scrolled into view, e.g. when opened from a link. */
+  focused?: boolean;
+  /** Launch profiles; a picker shows up next to the primary action when there is more than one. */
+  profiles?: Array<{ id: string; name: string }>;
+  activeProfileId?: string;
+  onProfileChange?: (profileId: string) => void;
 }
 
 export const GameCard: React.FC<GameCardProps> = ({
@@ -55,11 +67,40 @@ export const GameCard: React.FC<GameCardProps> = ({
   onSecondaryAction,
   onTertiaryAction,
   onQuaternaryAction,
+  onSettings,
+  playing = false,
+  focused = false,
+  profiles,
+  activeProfileId,
+  onProfileChange,
 }) => {
+  const lastSession = game.playSessions?.[0];
+  const cardRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    if (focused) {
+      cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [focused]);
+
   return (
-    <article className={`game-card game-card--${variant}`}>
+    <article
+      ref={cardRef}
+      className={`game-card game-card--${variant} ${focused ? 'game-card--focused' : ''}`}
+    >
       <div className="game-card__cover">
         <img src={game.coverUrl} alt={game.title} />
+        {onSettings ? (
+          <button
+            type="button"
+            className="game-card__settings"
+            onClick={onSettings}
+            aria-label={`Configurações de ${game.title}`}
+            title="Configurações"
+          >
+            ⚙
+          </button>
+        ) : null}
       </div>
 
       <div className="game-card__body">
@@ -91,6 +132,14 @@ export const GameCard: React.FC<GameCardProps> = ({
           ) : null}
         </div>
 
+        {variant === 'library' && (playing || game.playtimeSeconds) ? (
+          <div className="game-card__playtime">
+            {playing ? <span className="game-card__playing">Jogando agora</span> : null}
+            {game.playtimeSeconds ? <span>{formatDuration(game.playtimeSeconds)} jogados</span> : null}
+            {lastSession ? <span>Última sessão: {formatDuration(lastSession.durationSeconds)}</span> : null}
+          </div>
+        ) : null}
+
         {variant === 'library' && game.executablePath ? (
           <p className="game-card__path" title={game.executablePath}>
             {game.executablePath}
@@ -120,6 +169,21 @@ export const GameCard: React.FC<GameCardProps> = ({
             <p className="game-card__progress-description">{progressDescription}</p>
           ) : null}
 
+          {profiles && profiles.length > 1 && onProfileChange ? (
+            <select
+              className="game-card__profile"
+              value={activeProfileId ?? profiles[0].id}
+              onChange={(event) => onProfileChange(event.target.value)}
+              aria-label="Perfil de inicialização"
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          ) : null}
+
           <button
             type="button"
             className="game-card__primary"
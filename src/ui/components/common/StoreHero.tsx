@@ -17,14 +17,18 @@ const getHeroLabel = (status?: StoreDownloadStatus) => {
       return 'Na fila';
     case 'downloading':
       return 'Baixando...';
+    case 'verifying':
+      return 'Verificando...';
     case 'extracting':
       return 'Extraindo...';
     case 'awaitingExtraction':
       return 'Extrair agora';
+    case 'awaitingExecutableChoice':
+      return 'Escolher executável';
     case 'ready':
       return 'Baixar novamente';
     case 'failed':
-      return status.message?.toLowerCase().includes('cancel') ? 'Baixar novamente' : 'Baixar novamente';
+      return status.retryable ? 'Tentar novamente' : 'Baixar novamente';
     case 'cancelled':
       return 'Baixar novamente';
     default:
@@ -33,7 +37,10 @@ const getHeroLabel = (status?: StoreDownloadStatus) => {
 };
 
 const isHeroDisabled = (status?: StoreDownloadStatus) =>
-  status?.state === 'queued' || status?.state === 'downloading' || status?.state === 'extracting';
+  status?.state === 'queued' ||
+  status?.state === 'downloading' ||
+  status?.state === 'verifying' ||
+  status?.state === 'extracting';
 
 export const StoreHero: React.FC<StoreHeroProps> = ({
   game,
@@ -45,6 +52,7 @@ export const StoreHero: React.FC<StoreHeroProps> = ({
   const active =
     game.downloadStatus?.state === 'queued' ||
     game.downloadStatus?.state === 'downloading' ||
+    game.downloadStatus?.state === 'verifying' ||
     game.downloadStatus?.state === 'extracting';
 
   return (
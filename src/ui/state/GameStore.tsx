@@ -1,20 +1,31 @@
-import React, { createContext, useContext, useEffect, useMemo, useReducer, useRef, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useReducer, useRef, useCallback, useState } from 'react';
 
 import {
   DownloadRecord,
   GameCreatePayload,
   GameEntry,
+  PlaySession,
+  RunningGame,
+  StoreDownloadPart,
   StoreDownloadStatus,
   StoreGame,
   StoreGameCreatePayload,
 } from '../types';
+import { ARCHIVE_FORMATS } from '../utils/archiveFormats';
+import { getParentFolder } from '../utils/getParentFolder';
+import { sanitizeFileName } from '../utils/sanitizeFileName';
 import { REMOTE_STORE_URL, STORE_EXPORT_PATH } from '../../config/env';
 
-const STORAGE_KEY = 'launcher-pir-games@v2';
+/** Where the library lived before main took it over; read once to import it. */
+const LEGACY_STORAGE_KEY = 'launcher-pir-games@v2';
+
+const MAX_PLAY_SESSIONS = 20;
 
 const snapshotState = (value: GameState): GameState =>
   JSON.parse(JSON.stringify(value)) as GameState;
 
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
 const generateId = () => {
   if (
     typeof globalThis.crypto !== 'undefined' &&
@@ -32,6 +43,26 @@ type GameState = {
   downloadRecords: DownloadRecord[];
 };
 
+// Parts may be listed as plain URLs or as `{ url, sizeBytes, sha256 }` objects.
+const mapDownloadPart = (entry: unknown): StoreDownloadPart | null => {
+  const record = typeof entry === 'string' ? { url: entry } : (entry as Record<string, unknown> | null);
+  const url = typeof record?.url === 'string' ? record.url.trim() : '';
+
+  if (!record || !/^https?:\/\//i.test(url)) {
+    return null;
+  }
+
+  const sha256 = typeof record.sha256 === 'string' ? record.sha256.trim().toLowerCase() : '';
+  const { sizeBytes } = record;
+
+  return {
+    url,
+    sizeBytes:
+      typeof sizeBytes === 'number' && Number.isInteger(sizeBytes) && sizeBytes > 0 ? sizeBytes : undefined,
+    sha256: SHA256_PATTERN.test(sha256) ? sha256 : undefined,
+  };
+};
+
 const mapRemoteStoreEntry = (entry: unknown): StoreGame | null => {
   if (!entry || typeof entry !== 'object') {
     return null;
@@ -41,10 +72,21 @@ const mapRemoteStoreEntry = (entry: unknown): StoreGame | null => {
   const idValue = record.id;
   const titleValue = record.title;
   const downloadUrlValue = record.downloadUrl;
+  const downloadPartsValue = record.downloadParts;
+  const downloadParts = Array.isArray(downloadPartsValue)
+    ? downloadPartsValue
+        .map(mapDownloadPart)
+        .filter((part): part is StoreDownloadPart => part !== null)
+    : [];
 
   const id = typeof idValue === 'string' && idValue.trim().length > 0 ? idValue.trim() : generateId();
   const title = typeof titleValue === 'string' ? titleValue.trim() : '';
-  const downloadUrl = typeof downloadUrlValue === 'string' ? downloadUrlValue.trim() : '';
+  const downloadUrl =
+    downloadParts.length > 1
+      ? downloadParts[0].url
+      : typeof downloadUrlValue === 'string' && downloadUrlValue.trim()
+        ? downloadUrlValue.trim()
+        : downloadParts[0]?.url ?? '';
 
   if (!title || !downloadUrl) {
     return null;
@@ -61,6 +103,16 @@ const mapRemoteStoreEntry = (entry: unknown): StoreGame | null => {
   const heroUrlValue = record.heroUrl;
   const sizeValue = record.size;
   const expectedExecutableValue = record.expectedExecutable;
+  const sha256Value = typeof record.sha256 === 'string' ? record.sha256.trim().toLowerCase() : '';
+  const sizeBytesValue = record.sizeBytes;
+  const mirrorsValue = record.mirrors;
+  const mirrors = Array.isArray(mirrorsValue)
+    ? mirrorsValue
+        .filter((mirror: unknown): mirror is string => typeof mirror === 'string')
+        .map((mirror) => mirror.trim())
+        .filter((mirror) => /^https?:\/\//i.test(mirror) && mirror !== downloadUrl)
+    : [];
+  const archiveFormatValue = record.archiveFormat;
   const createdAtValue = record.createdAt;
   const libraryEntryIdValue = record.libraryEntryId;
 
@@ -84,6 +136,14 @@ const mapRemoteStoreEntry = (entry: unknown): StoreGame | null => {
     downloadUrl,
     expectedExecutable:
       typeof expectedExecutableValue === 'string' ? expectedExecutableValue : undefined,
+    sha256: SHA256_PATTERN.test(sha256Value) ? sha256Value : undefined,
+    sizeBytes:
+      typeof sizeBytesValue === 'number' && Number.isInteger(sizeBytesValue) && sizeBytesValue > 0
+        ? sizeBytesValue
+        : undefined,
+    mirrors: mirrors.length > 0 ? mirrors : undefined,
+    archiveFormat: ARCHIVE_FORMATS.find((format) => format === archiveFormatValue),
+    downloadParts: downloadParts.length > 1 ? downloadParts : undefined,
     createdAt: typeof createdAtValue === 'string' ? createdAtValue : new Date().toISOString(),
     downloadStatus: { state: 'idle' },
     libraryEntryId: typeof libraryEntryIdValue === 'string' ? libraryEntryIdValue : undefined,
@@ -101,6 +161,11 @@ const serializeStoreGame = (game: StoreGame) => ({
   size: game.size,
   downloadUrl: game.downloadUrl,
   expectedExecutable: game.expectedExecutable,
+  sha256: game.sha256,
+  sizeBytes: game.sizeBytes,
+  mirrors: game.mirrors,
+  archiveFormat: game.archiveFormat,
+  downloadParts: game.downloadParts,
   createdAt: game.createdAt ?? new Date().toISOString(),
   libraryEntryId: game.libraryEntryId,
 });
@@ -118,6 +183,7 @@ type GameAction =
   | { type: 'uninstall'; id: string }
   | { type: 'add-custom'; payload: GameCreatePayload }
   | { type: 'update'; id: string; payload: Partial<GameEntry> }
+  | { type: 'record-play-session'; id: string; session: PlaySession }
   | { type: 'hydrate'; payload: GameState }
   | { type: 'add-store'; payload: StoreGame }
   | { type: 'remove-store'; id: string }
@@ -136,6 +202,8 @@ type GameAction =
         storeGame: StoreGame;
         executablePath: string;
         installDirectory: string;
+        /** Id for a new library entry; an existing entry keeps its own. */
+        libraryEntryId?: string;
       };
     }
   | { type: 'remove-download-record'; id: string }
@@ -238,6 +306,20 @@ const gameReducer = (state: GameState, action: GameAction): GameState => {
         storeGames: state.storeGames,
         downloadRecords: state.downloadRecords,
       };
+    case 'record-play-session':
+      return {
+        games: state.games.map((game) =>
+          game.id === action.id
+            ? {
+                ...game,
+                playtimeSeconds: (game.playtimeSeconds ?? 0) + action.session.durationSeconds,
+                playSessions: [action.session, ...(game.playSessions ?? [])].slice(0, MAX_PLAY_SESSIONS),
+              }
+            : game,
+        ),
+        storeGames: state.storeGames,
+        downloadRecords: state.downloadRecords,
+      };
     case 'add-store':
       return {
         games: state.games,
@@ -330,7 +412,7 @@ const gameReducer = (state: GameState, action: GameAction): GameState => {
         );
         libraryEntryId = existingEntry.id;
       } else {
-        const newId = generateId();
+        const newId = action.payload.libraryEntryId ?? generateId();
         const newEntry: GameEntry = {
           id: newId,
           storeId: storeGame.id,
@@ -397,19 +479,38 @@ const gameReducer = (state: GameState, action: GameAction): GameState => {
 };
 
 interface GameStoreValue extends GameState {
+  /** False until the saved library has been read from main. */
+  loaded: boolean;
+  /** Games with a live process, by library id. */
+  runningGames: Record<string, RunningGame>;
   installGame: (id: string, executablePath: string) => void;
   uninstallGame: (id: string) => void;
   deleteInstallation: (id: string) => Promise<void>;
+  moveInstallation: (
+    id: string,
+    targetFolder: string,
+  ) => Promise<{ success: boolean; cancelled?: boolean; message?: string }>;
   removeDownloadRecord: (id: string) => void;
   clearDownloadRecords: () => void;
   resumeExtraction: (id: string) => Promise<{ success: boolean; message?: string }>;
+  chooseExecutable: (id: string, executablePath: string) => Promise<{ success: boolean; message?: string }>;
   addCustomGame: (payload: GameCreatePayload) => void;
   updateGame: (id: string, payload: Partial<GameEntry>) => void;
   addStoreGame: (payload: StoreGameCreatePayload) => void;
   editStoreGame: (id: string, payload: StoreGameCreatePayload) => void;
   removeStoreGame: (id: string) => void;
   setStoreDownloadStatus: (id: string, status: StoreDownloadStatus) => void;
-  startStoreDownload: (id: string, url: string, fileName: string) => Promise<void>;
+  startStoreDownload: (
+    id: string,
+    url: string,
+    fileName: string,
+    libraryFolder?: string,
+  ) => Promise<void>;
+  pauseStoreDownload: (id: string) => Promise<{ success: boolean; message?: string }>;
+  resumeStoreDownload: (id: string) => Promise<void>;
+  moveQueuedDownload: (id: string, toIndex: number) => Promise<{ success: boolean; message?: string }>;
+  prioritizeDownload: (id: string) => Promise<{ success: boolean; message?: string }>;
+  setDownloadLimit: (id: string, bytesPerSecond: number) => Promise<{ success: boolean; message?: string }>;
   isRemoteStore: boolean;
   remoteStoreUrl?: string;
   refreshRemoteStore: () => Promise<boolean>;
@@ -420,12 +521,27 @@ interface GameStoreValue extends GameState {
 
 const GameStoreContext = createContext<GameStoreValue | undefined>(undefined);
 
-const loadInitialState = (): GameState => {
+const createEmptyState = (): GameState => ({
+  games: [],
+  storeGames: [],
+  downloadRecords: [],
+});
+
+/** Downloads cut short by a restart come back as interrupted or awaiting extraction. */
+const normalizeSavedState = (parsed: Partial<GameState>): GameState => {
   const normalizeRecord = (record: DownloadRecord): DownloadRecord | null => {
     switch (record.state) {
       case 'queued':
       case 'downloading':
-        return null;
+      case 'verifying':
+        if (!record.destinationPath) {
+          return null;
+        }
+        return {
+          ...record,
+          state: 'interrupted',
+          finishedAt: record.finishedAt ?? new Date().toISOString(),
+        };
       case 'extracting':
         return {
           ...record,
@@ -474,53 +590,57 @@ const loadInitialState = (): GameState => {
       return { state: 'idle' };
     }
 
-    if (['queued', 'downloading'].includes(status.state)) {
+    if (['queued', 'downloading', 'verifying'].includes(status.state)) {
+      if (record?.state === 'interrupted' && record.destinationPath) {
+        return {
+          state: 'interrupted',
+          filePath: record.destinationPath,
+          received: record.receivedBytes ?? 0,
+          total: record.sizeBytes,
+          finishedAt: record.finishedAt ?? new Date().toISOString(),
+        };
+      }
+
       return { state: 'idle' };
     }
 
     return status;
   };
 
-  if (typeof window === 'undefined') {
-    return { games: [], storeGames: [], downloadRecords: [] };
-  }
-
-  try {
-    const stored = window.localStorage.getItem(STORAGE_KEY);
+  const normalizedRecords = (parsed.downloadRecords?.map(normalizeRecord).filter(Boolean) ?? []) as DownloadRecord[];
+  const recordMap = new Map(normalizedRecords.map((record) => [record.gameId, record]));
 
-    if (stored) {
-      const parsed = JSON.parse(stored) as GameState;
-      const normalizedRecords = (parsed.downloadRecords?.map(normalizeRecord).filter(Boolean) ?? []) as DownloadRecord[];
-      const recordMap = new Map(normalizedRecords.map((record) => [record.gameId, record]));
+  return {
+    games: parsed.games?.map((game) => ({
+      ...game,
+      installed: Boolean(game.installed),
+    })) ?? [],
+    storeGames:
+      parsed.storeGames?.map((storeGame) => ({
+        ...storeGame,
+        downloadStatus: normalizeStatus(storeGame.downloadStatus, recordMap.get(storeGame.id)),
+      })) ?? [],
+    downloadRecords: normalizedRecords,
+  };
+};
 
-      return {
-        games: parsed.games?.map((game) => ({
-          ...game,
-          installed: Boolean(game.installed),
-        })) ?? [],
-        storeGames:
-          parsed.storeGames?.map((storeGame) => ({
-            ...storeGame,
-            downloadStatus: normalizeStatus(storeGame.downloadStatus, recordMap.get(storeGame.id)),
-          })) ?? [],
-        downloadRecords: normalizedRecords,
-      };
-    }
+const readLegacyState = (): Partial<GameState> | null => {
+  try {
+    const stored = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Partial<GameState>) : null;
   } catch (error) {
     console.warn('Falha ao ler jogos salvos', error);
+    return null;
   }
-
-  return {
-    games: [],
-    storeGames: [],
-    downloadRecords: [],
-  };
 };
 
 export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
   children,
 }) => {
-  const [state, dispatch] = useReducer(gameReducer, undefined, loadInitialState);
+  const [state, dispatch] = useReducer(gameReducer, undefined, createEmptyState);
+  const [loaded, setLoaded] = useState(false);
+  // A data file that exists but could not be read must not be replaced by an empty library.
+  const saveDisabledRef = useRef(false);
 
   const remoteStoreUrl = REMOTE_STORE_URL;
   const isRemoteStore = Boolean(remoteStoreUrl);
@@ -531,8 +651,10 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
   const downloadRecordsRef = useRef<DownloadRecord[]>(state.downloadRecords);
   const saveHandleRef = useRef<number | null>(null);
   const latestStateRef = useRef(state);
-  const latestSnapshotRef = useRef<GameState | null>(snapshotState(state));
+  // Changes still waiting for the idle save; handed to main synchronously if the window closes first.
+  const unsentSnapshotRef = useRef<GameState | null>(null);
   const storeExportPath = STORE_EXPORT_PATH;
+  const [runningGames, setRunningGames] = useState<Record<string, RunningGame>>({});
 
   const fetchRemoteStore = useCallback(async (): Promise<boolean> => {
     if (!isRemoteStore || !remoteStoreUrl) {
@@ -575,6 +697,36 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
     }
   }, [dispatch, isRemoteStore, remoteStoreUrl]);
 
+  /** Adds an installed store game to the library, then runs the optional shortcut step from the settings. */
+  const linkStoreGame = useCallback((storeGame: StoreGame, executablePath: string, installDirectory: string) => {
+    const libraryEntryId =
+      latestStateRef.current.games.find((game) => game.storeId === storeGame.id)?.id ?? generateId();
+
+    dispatch({
+      type: 'link-store-game',
+      payload: { storeGame, executablePath, installDirectory, libraryEntryId },
+    });
+
+    window.electronAPI
+      ?.createShortcuts?.({ gameId: libraryEntryId, title: storeGame.title, executablePath })
+      .then((result) => {
+        if (!result.success) {
+          console.warn('Falha ao criar atalhos do jogo', result.message);
+          return;
+        }
+
+        if (result.paths?.length) {
+          const current = latestStateRef.current.games.find((game) => game.id === libraryEntryId)?.shortcuts ?? [];
+          dispatch({
+            type: 'update',
+            id: libraryEntryId,
+            payload: { shortcuts: Array.from(new Set([...current, ...result.paths])) },
+          });
+        }
+      })
+      .catch(() => undefined);
+  }, []);
+
   useEffect(() => {
     storeGamesRef.current = state.storeGames;
   }, [state.storeGames]);
@@ -588,7 +740,107 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
   }, [state]);
 
   useEffect(() => {
-    if (!isRemoteStore) {
+    const api = window.electronAPI;
+    if (!api?.onGameStarted || !api.onGameExited) {
+      return undefined;
+    }
+
+    // Games keep running across a renderer reload; pick the live ones back up.
+    api
+      .listRunningGames?.()
+      .then((sessions) => {
+        setRunningGames(Object.fromEntries(sessions.map((session) => [session.gameId, session])));
+      })
+      .catch(() => undefined);
+
+    const unsubscribeStarted = api.onGameStarted((session) => {
+      setRunningGames((current) => ({ ...current, [session.gameId]: session }));
+    });
+
+    const unsubscribeExited = api.onGameExited(({ gameId, startedAt, endedAt, durationSeconds, exitCode }) => {
+      setRunningGames((current) => {
+        const next = { ...current };
+        delete next[gameId];
+        return next;
+      });
+      dispatch({
+        type: 'record-play-session',
+        id: gameId,
+        session: { startedAt, endedAt, durationSeconds, exitCode },
+      });
+    });
+
+    return () => {
+      unsubscribeStarted();
+      unsubscribeExited();
+    };
+  }, []);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.loadLibraryData) {
+      setLoaded(true);
+      return undefined;
+    }
+
+    let active = true;
+
+    const load = async () => {
+      const result = await api.loadLibraryData();
+
+      if (!result.success) {
+        saveDisabledRef.current = true;
+        console.error('Falha ao carregar os dados da biblioteca', result.message);
+        return null;
+      }
+
+      if (result.data) {
+        return normalizeSavedState(result.data);
+      }
+
+      // First run with the data file: bring over what the renderer kept in localStorage.
+      const legacy = readLegacyState();
+      if (!legacy) {
+        return null;
+      }
+
+      const imported = normalizeSavedState(legacy);
+      const saved = await api.saveLibraryData(snapshotState(imported));
+
+      if (saved.success) {
+        window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+      } else {
+        console.warn('Falha ao importar jogos salvos', saved.message);
+      }
+
+      return imported;
+    };
+
+    load()
+      .catch((error) => {
+        saveDisabledRef.current = true;
+        console.error('Falha ao carregar os dados da biblioteca', error);
+        return null;
+      })
+      .then((data) => {
+        if (!active) {
+          return;
+        }
+
+        if (data) {
+          dispatch({ type: 'hydrate', payload: data });
+        }
+        setLoaded(true);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Waits for the saved library so the remote catalog is not merged into an empty one.
+    if (!isRemoteStore || !loaded) {
       return;
     }
 
@@ -597,10 +849,11 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
     return () => {
       remoteStoreAbortRef.current?.abort();
     };
-  }, [isRemoteStore, fetchRemoteStore]);
+  }, [isRemoteStore, fetchRemoteStore, loaded]);
 
   useEffect(() => {
-    if (typeof window === 'undefined') {
+    const api = window.electronAPI;
+    if (!api?.saveLibraryData || !loaded || saveDisabledRef.current) {
       return () => undefined;
     }
 
@@ -609,7 +862,19 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
       storeGames: state.storeGames,
       downloadRecords: state.downloadRecords,
     };
-    latestSnapshotRef.current = snapshotState(snapshot);
+    unsentSnapshotRef.current = snapshot;
+
+    const save = () => {
+      if (unsentSnapshotRef.current === snapshot) {
+        unsentSnapshotRef.current = null;
+      }
+
+      api.saveLibraryData(snapshot).then((result) => {
+        if (!result.success) {
+          console.warn('Falha ao salvar jogos', result.message);
+        }
+      });
+    };
 
     if ('requestIdleCallback' in window) {
       if (saveHandleRef.current) {
@@ -619,9 +884,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
       }
 
       const handle = (window as unknown as { requestIdleCallback: (cb: () => void) => number }).requestIdleCallback(
-        () => {
-          window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
-        },
+        save,
       );
 
       saveHandleRef.current = handle;
@@ -636,22 +899,21 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
       };
     }
 
-    const timeout = window.setTimeout(() => {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
-    }, 100);
+    const timeout = window.setTimeout(save, 100);
 
     return () => window.clearTimeout(timeout);
-  }, [state]);
+  }, [state, loaded]);
 
   useEffect(() => {
+    // An async save started here could still be in flight when main quits, so the
+    // snapshot goes over synchronously and main's quit flush writes it.
     const handleBeforeUnload = () => {
-      const snapshot =
-        latestSnapshotRef.current ?? snapshotState({
-          games: latestStateRef.current.games,
-          storeGames: latestStateRef.current.storeGames,
-          downloadRecords: latestStateRef.current.downloadRecords,
-        });
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+      const snapshot = unsentSnapshotRef.current;
+
+      if (snapshot && !saveDisabledRef.current) {
+        unsentSnapshotRef.current = null;
+        window.electronAPI?.saveLibraryDataSync?.(snapshot);
+      }
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
@@ -668,13 +930,36 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
     }
 
     return api.onStoreDownloadProgress(
-      ({ gameId, state: downloadState, received, total, filePath, message, installDirectory, executablePath }) => {
+      ({
+        gameId,
+        state: downloadState,
+        received,
+        total,
+        totalBytes: eventTotalBytes,
+        filePath,
+        message,
+        installDirectory,
+        executablePath,
+        queuePosition,
+        queueLength,
+        retryable,
+        retries,
+        mirrorUrl,
+        part,
+        partCount,
+        entriesProcessed,
+        entriesTotal,
+        eta,
+        candidates,
+      }) => {
         const now = Date.now();
         const storeGame = storeGamesRef.current.find((game) => game.id === gameId);
 
         const getOrCreateRecord = () => {
           const existingRecord = downloadRecordsRef.current.find((record) => record.gameId === gameId);
           if (existingRecord) {
+            const keepsLimit =
+              existingRecord.state === 'paused' || existingRecord.state === 'interrupted';
             downloadMetricsRef.current[gameId] = {
               timestamp: now,
               received: 0,
@@ -694,6 +979,10 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
                 executablePath: undefined,
                 sizeBytes: undefined,
                 errorMessage: undefined,
+                bandwidthLimit: keepsLimit ? existingRecord.bandwidthLimit : undefined,
+                retryCount: undefined,
+                currentPart: undefined,
+                partCount: undefined,
                 speedHistory: [],
               },
             });
@@ -763,12 +1052,20 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
         switch (downloadState) {
           case 'queued': {
             const recordId = ensureRecordIfNeeded() ?? getOrCreateRecord();
-            dispatch({ type: 'set-store-status', id: gameId, status: { state: 'queued' } });
+            const alreadyQueued =
+              downloadRecordsRef.current.find((record) => record.id === recordId)?.state === 'queued';
             dispatch({
-              type: 'update-download-record',
-              id: recordId,
-              payload: { state: 'queued', startedAt: new Date(now).toISOString() },
+              type: 'set-store-status',
+              id: gameId,
+              status: { state: 'queued', position: queuePosition, queueLength },
             });
+            if (!alreadyQueued) {
+              dispatch({
+                type: 'update-download-record',
+                id: recordId,
+                payload: { state: 'queued', startedAt: new Date(now).toISOString() },
+              });
+            }
             ensureMetrics(recordId);
             break;
           }
@@ -781,7 +1078,9 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
             const prevReceived = previousMetric.received ?? 0;
 
             const newReceived = typeof received === 'number' ? received : prevReceived;
-            const deltaBytes = Math.max(newReceived - prevReceived, 0);
+            // The first event of a resumed download already carries the bytes kept on disk.
+            const isFirstProgress = prevReceived === 0 && previousMetric.bytesSinceLast === 0;
+            const deltaBytes = isFirstProgress ? 0 : Math.max(newReceived - prevReceived, 0);
             const bytesSinceLast = (previousMetric?.bytesSinceLast ?? 0) + deltaBytes;
             const elapsed = now - (previousMetric?.timestamp ?? now);
             const prevSpeed = previousMetric?.speed;
@@ -815,6 +1114,8 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
                 received: newReceived,
                 total,
                 speed: updatedSpeed,
+                part,
+                partCount,
               },
             });
 
@@ -824,6 +1125,11 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
               payload: {
                 state: 'downloading',
                 sizeBytes: total,
+                receivedBytes: newReceived,
+                destinationPath: filePath,
+                ...(retries ? { retryCount: retries } : {}),
+                ...(mirrorUrl ? { mirrorUrl } : {}),
+                ...(partCount ? { currentPart: part, partCount } : {}),
               },
               appendSpeedEntry:
                 shouldAppendSpeed && updatedSpeed !== undefined
@@ -832,6 +1138,38 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
             });
             break;
           }
+          case 'verifying': {
+            const recordId = ensureRecordIfNeeded();
+            const filePathValue = filePath ?? downloadRecordsRef.current.find((r) => r.gameId === gameId)?.destinationPath ?? '';
+
+            dispatch({
+              type: 'set-store-status',
+              id: gameId,
+              status: {
+                state: 'verifying',
+                filePath: filePathValue,
+                received: received ?? 0,
+                total,
+                part,
+                partCount,
+              },
+            });
+
+            if (recordId && downloadRecordsRef.current.find((r) => r.id === recordId)?.state !== 'verifying') {
+              dispatch({
+                type: 'update-download-record',
+                id: recordId,
+                payload: {
+                  state: 'verifying',
+                  destinationPath: filePathValue,
+                  // A part's size is not the size of the whole download.
+                  ...(partCount ? { currentPart: part, partCount } : { sizeBytes: total }),
+                },
+              });
+            }
+
+            break;
+          }
           case 'extracting': {
             const recordId = ensureRecordIfNeeded();
             const filePathValue = filePath ?? downloadRecordsRef.current.find((r) => r.gameId === gameId)?.destinationPath ?? '';
@@ -844,18 +1182,23 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
                 filePath: filePathValue,
                 received,
                 total,
+                entriesProcessed,
+                entriesTotal,
+                eta,
               },
             });
 
             if (recordId) {
               const metrics = ensureMetrics(recordId);
+              // `total` counts uncompressed bytes here, so the record keeps the archive size.
+              const archiveSize = eventTotalBytes ?? (metrics.received || undefined);
               dispatch({
                 type: 'update-download-record',
                 id: recordId,
                 payload: {
                   state: 'extracting',
                   destinationPath: filePathValue,
-                  sizeBytes: total ?? metrics.received,
+                  ...(archiveSize ? { sizeBytes: archiveSize } : {}),
                   finishedAt: undefined,
                 },
               });
@@ -896,10 +1239,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
             });
 
             if (storeGame && executablePath && installDirectory) {
-              dispatch({
-                type: 'link-store-game',
-                payload: { storeGame, executablePath, installDirectory },
-              });
+              linkStoreGame(storeGame, executablePath, installDirectory);
             }
 
             delete downloadMetricsRef.current[gameId];
@@ -917,6 +1257,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
                 state: isCanceled ? 'cancelled' : 'failed',
                 message: errorMessage,
                 finishedAt: new Date(now).toISOString(),
+                ...(retryable && !isCanceled ? { retryable } : {}),
               },
             });
             if (recordId) {
@@ -933,6 +1274,52 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
             delete downloadMetricsRef.current[gameId];
             break;
           }
+          case 'paused':
+          case 'interrupted': {
+            const recordId = ensureRecordIfNeeded();
+            const zipPath = filePath ?? downloadRecordsRef.current.find((r) => r.gameId === gameId)?.destinationPath ?? '';
+            const finishedAt = new Date(now).toISOString();
+
+            dispatch({
+              type: 'set-store-status',
+              id: gameId,
+              status:
+                downloadState === 'paused'
+                  ? {
+                      state: 'paused',
+                      filePath: zipPath,
+                      received: received ?? 0,
+                      total,
+                      pausedAt: finishedAt,
+                    }
+                  : {
+                      state: 'interrupted',
+                      filePath: zipPath,
+                      received: received ?? 0,
+                      total,
+                      message,
+                      finishedAt,
+                    },
+            });
+
+            if (recordId) {
+              dispatch({
+                type: 'update-download-record',
+                id: recordId,
+                payload: {
+                  state: downloadState,
+                  destinationPath: zipPath,
+                  receivedBytes: received,
+                  sizeBytes: total,
+                  finishedAt: downloadState === 'paused' ? undefined : finishedAt,
+                  errorMessage: message,
+                },
+              });
+            }
+
+            delete downloadMetricsRef.current[gameId];
+            break;
+          }
           case 'cancelled': {
             const recordId = findRecordId();
 
@@ -958,6 +1345,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
                 filePath: zipPath,
                 totalBytes: metrics.received,
                 requestedAt: new Date(now).toISOString(),
+                message,
               },
             });
 
@@ -969,10 +1357,43 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
                 destinationPath: zipPath,
                 sizeBytes: metrics.received,
                 finishedAt: undefined,
-                errorMessage: undefined,
+                errorMessage: message,
+              },
+            });
+
+            break;
+          }
+          case 'awaitingExecutableChoice': {
+            const recordId = ensureRecordIfNeeded() ?? getOrCreateRecord();
+            const metrics = ensureMetrics(recordId);
+            const totalBytes = eventTotalBytes ?? metrics.received;
+
+            dispatch({
+              type: 'set-store-status',
+              id: gameId,
+              status: {
+                state: 'awaitingExecutableChoice',
+                filePath: filePath ?? '',
+                totalBytes,
+                completedAt: new Date(now).toISOString(),
+                installDirectory: installDirectory ?? '',
+                candidates: candidates ?? [],
               },
             });
 
+            dispatch({
+              type: 'update-download-record',
+              id: recordId,
+              payload: {
+                state: 'awaitingExecutableChoice',
+                destinationPath: filePath,
+                installDirectory,
+                finishedAt: new Date(now).toISOString(),
+                sizeBytes: totalBytes,
+              },
+            });
+
+            delete downloadMetricsRef.current[gameId];
             break;
           }
           default:
@@ -980,7 +1401,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
         }
       },
     );
-  }, []);
+  }, [linkStoreGame]);
 
   const value = useMemo<GameStoreValue>(
     () => {
@@ -993,10 +1414,59 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
         return JSON.stringify(payload, null, 2);
       };
 
+      const startDownload = async (
+        id: string,
+        url: string,
+        fileName: string,
+        libraryFolder?: string,
+      ) => {
+        const api = window.electronAPI;
+        dispatch({ type: 'set-store-status', id, status: { state: 'queued' } });
+
+        if (!api?.startStoreDownload) {
+          dispatch({
+            type: 'set-store-status',
+            id,
+            status: { state: 'failed', message: 'Download não suportado neste ambiente.' },
+          });
+          return;
+        }
+
+        const game = storeGamesRef.current.find((item) => item.id === id);
+
+        const result = await api.startStoreDownload({
+          gameId: id,
+          url,
+          fileName,
+          title: game?.title,
+          expectedExecutable: game?.expectedExecutable,
+          sha256: game?.sha256,
+          sizeBytes: game?.sizeBytes,
+          mirrors: game?.mirrors,
+          archiveFormat: game?.archiveFormat,
+          parts: game?.downloadParts,
+          libraryFolder,
+        });
+
+        // When main reports a final state it has already been applied through the progress events.
+        if (!result?.success && !result?.state) {
+          dispatch({
+            type: 'set-store-status',
+            id,
+            status: {
+              state: 'failed',
+              message: result?.message ?? 'Falha ao iniciar download.',
+            },
+          });
+        }
+      };
+
       return {
         games: state.games,
         storeGames: state.storeGames,
         downloadRecords: state.downloadRecords,
+        loaded,
+        runningGames,
         installGame: (id: string, executablePath: string) => {
           dispatch({ type: 'install', id, executablePath });
         },
@@ -1013,11 +1483,62 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
           }
 
           if (targetGame.installDirectory && api?.uninstallGame) {
-            await api.uninstallGame(targetGame.installDirectory);
+            const result = await api.uninstallGame(targetGame.installDirectory, targetGame.shortcuts);
+
+            // Main refuses folders outside the library; keep the entry so nothing looks removed.
+            if (!result?.success) {
+              throw new Error(result?.message ?? 'Falha ao remover diretório do jogo.');
+            }
+
+            dispatch({ type: 'update', id, payload: { shortcuts: undefined } });
           }
 
           dispatch({ type: 'uninstall', id });
         },
+        moveInstallation: async (id: string, targetFolder: string) => {
+          const api = window.electronAPI;
+          const targetGame = state.games.find((game) => game.id === id);
+
+          if (!targetGame?.installDirectory) {
+            return { success: false, message: 'O jogo não tem uma pasta de instalação conhecida.' };
+          }
+
+          if (!api?.moveInstallation) {
+            return { success: false, message: 'Mover jogos não é suportado neste ambiente.' };
+          }
+
+          const previousDirectory = targetGame.installDirectory;
+          const result = await api.moveInstallation({
+            gameId: id,
+            installDirectory: previousDirectory,
+            executablePath: targetGame.executablePath,
+            targetFolder,
+            title: targetGame.title,
+            shortcuts: targetGame.shortcuts,
+          });
+
+          if (!result.success || !result.installDirectory) {
+            return {
+              success: false,
+              cancelled: result.cancelled,
+              message: result.message ?? 'Falha ao mover o jogo.',
+            };
+          }
+
+          const relocated = {
+            installDirectory: result.installDirectory,
+            executablePath: result.executablePath,
+          };
+
+          dispatch({ type: 'update', id, payload: relocated });
+          downloadRecordsRef.current
+            .filter((record) => record.installDirectory === previousDirectory)
+            .forEach((record) =>
+              dispatch({ type: 'update-download-record', id: record.id, payload: relocated }),
+            );
+
+          return { success: true, message: result.message };
+        },
         removeDownloadRecord: (id: string) => {
           const record = state.downloadRecords.find((item) => item.id === id);
           if (record) {
@@ -1049,12 +1570,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
           dispatch({
             type: 'set-store-status',
             id,
-            status: {
-              state: 'extracting',
-              filePath,
-              total: totalBytes,
-              received: totalBytes,
-            },
+            status: { state: 'extracting', filePath },
           });
 
           if (record) {
@@ -1074,8 +1590,61 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
             gameId: id,
             filePath,
             expectedExecutable: storeGame.expectedExecutable,
+            archiveFormat: storeGame.archiveFormat,
+            title: storeGame.title,
           });
 
+          if (result.cancelled) {
+            // The archive is still on disk, so the game goes back to waiting for extraction.
+            dispatch({
+              type: 'set-store-status',
+              id,
+              status: {
+                state: 'awaitingExtraction',
+                filePath,
+                totalBytes,
+                requestedAt: new Date().toISOString(),
+                message: result.message,
+              },
+            });
+            if (record) {
+              dispatch({
+                type: 'update-download-record',
+                id: record.id,
+                payload: { state: 'awaitingExtraction' },
+              });
+            }
+            return { success: false, message: result.message };
+          }
+
+          if (result.success && result.installDirectory && !result.executablePath && result.candidates) {
+            const completedAt = new Date().toISOString();
+            dispatch({
+              type: 'set-store-status',
+              id,
+              status: {
+                state: 'awaitingExecutableChoice',
+                filePath,
+                totalBytes,
+                completedAt,
+                installDirectory: result.installDirectory,
+                candidates: result.candidates,
+              },
+            });
+            if (record) {
+              dispatch({
+                type: 'update-download-record',
+                id: record.id,
+                payload: {
+                  state: 'awaitingExecutableChoice',
+                  installDirectory: result.installDirectory,
+                  finishedAt: completedAt,
+                },
+              });
+            }
+            return { success: true };
+          }
+
           if (!result.success || !result.installDirectory || !result.executablePath) {
             const message = result.message ?? 'Falha ao extrair arquivos.';
             dispatch({
@@ -1128,15 +1697,51 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
             });
           }
 
+          linkStoreGame(storeGame, result.executablePath, result.installDirectory);
+
+          return { success: true };
+        },
+        chooseExecutable: async (id: string, executablePath: string) => {
+          const storeGame = storeGamesRef.current.find((game) => game.id === id);
+          const status = storeGame?.downloadStatus;
+
+          if (!storeGame || status?.state !== 'awaitingExecutableChoice') {
+            return { success: false, message: 'Este jogo não está aguardando a escolha do executável.' };
+          }
+
+          const validation = await window.electronAPI?.validateExecutable?.(executablePath);
+
+          if (validation && !validation.success) {
+            return { success: false, message: validation.message };
+          }
+
+          const chosenPath = validation?.filePath ?? executablePath;
+          const completedAt = new Date().toISOString();
+          const record = downloadRecordsRef.current.find((item) => item.gameId === id);
+
           dispatch({
-            type: 'link-store-game',
-            payload: {
-              storeGame,
-              executablePath: result.executablePath,
-              installDirectory: result.installDirectory,
+            type: 'set-store-status',
+            id,
+            status: {
+              state: 'ready',
+              filePath: status.filePath,
+              totalBytes: status.totalBytes,
+              completedAt,
+              installDirectory: status.installDirectory,
+              executablePath: chosenPath,
             },
           });
 
+          if (record) {
+            dispatch({
+              type: 'update-download-record',
+              id: record.id,
+              payload: { state: 'ready', executablePath: chosenPath, finishedAt: completedAt },
+            });
+          }
+
+          linkStoreGame(storeGame, chosenPath, status.installDirectory);
+
           return { success: true };
         },
         addCustomGame: (payload: GameCreatePayload) => {
@@ -1198,38 +1803,76 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
         setStoreDownloadStatus: (id: string, status: StoreDownloadStatus) => {
           dispatch({ type: 'set-store-status', id, status });
         },
-        startStoreDownload: async (id: string, url: string, fileName: string) => {
+        startStoreDownload: startDownload,
+        pauseStoreDownload: async (id: string) => {
           const api = window.electronAPI;
-          dispatch({ type: 'set-store-status', id, status: { state: 'queued' } });
 
-          if (!api?.startStoreDownload) {
-            dispatch({
-              type: 'set-store-status',
-              id,
-              status: { state: 'failed', message: 'Download não suportado neste ambiente.' },
-            });
-            return;
+          if (!api?.pauseDownload) {
+            return { success: false, message: 'Pausa não disponível.' };
           }
 
+          return api.pauseDownload(id);
+        },
+        resumeStoreDownload: async (id: string) => {
+          const api = window.electronAPI;
           const game = storeGamesRef.current.find((item) => item.id === id);
 
-          const result = await api.startStoreDownload({
-            gameId: id,
-            url,
-            fileName,
-            expectedExecutable: game?.expectedExecutable,
-          });
+          if (!api?.resumeDownload || !game) {
+            return;
+          }
+
+          const record = downloadRecordsRef.current.find((item) => item.gameId === id);
+          const limit = record?.bandwidthLimit;
+          if (limit && api.setDownloadLimit) {
+            // Main forgets per-download limits on restart, so restore the one kept in the record.
+            await api.setDownloadLimit(id, limit);
+          }
+
+          const result = await api.resumeDownload(id);
 
-          if (!result?.success) {
+          if (!result?.success && result?.resumable === false) {
+            // The partial file is gone (or was never resumable), so start over in the folder it was going to.
+            const libraryFolder = record?.destinationPath ? getParentFolder(record.destinationPath) : undefined;
+            await startDownload(id, game.downloadUrl, sanitizeFileName(game.title), libraryFolder);
+          }
+        },
+        moveQueuedDownload: async (id: string, toIndex: number) => {
+          const api = window.electronAPI;
+
+          if (!api?.moveDownload) {
+            return { success: false, message: 'Fila de downloads não disponível.' };
+          }
+
+          return api.moveDownload(id, toIndex);
+        },
+        prioritizeDownload: async (id: string) => {
+          const api = window.electronAPI;
+
+          if (!api?.prioritizeDownload) {
+            return { success: false, message: 'Fila de downloads não disponível.' };
+          }
+
+          return api.prioritizeDownload(id);
+        },
+        setDownloadLimit: async (id: string, bytesPerSecond: number) => {
+          const api = window.electronAPI;
+
+          if (!api?.setDownloadLimit) {
+            return { success: false, message: 'Limite de velocidade não disponível.' };
+          }
+
+          const result = await api.setDownloadLimit(id, bytesPerSecond);
+          const record = downloadRecordsRef.current.find((item) => item.gameId === id);
+
+          if (result?.success && record) {
             dispatch({
-              type: 'set-store-status',
-              id,
-              status: {
-                state: 'failed',
-                message: result?.message ?? 'Falha ao iniciar download.',
-              },
+              type: 'update-download-record',
+              id: record.id,
+              payload: { bandwidthLimit: bytesPerSecond > 0 ? bytesPerSecond : undefined },
             });
           }
+
+          return result;
         },
         isRemoteStore,
         remoteStoreUrl,
@@ -1263,7 +1906,7 @@ export const GameStoreProvider: React.FC<React.PropsWithChildren> = ({
         },
       };
     },
-    [state, isRemoteStore, remoteStoreUrl, fetchRemoteStore, storeExportPath],
+    [state, loaded, runningGames, isRemoteStore, remoteStoreUrl, fetchRemoteStore, linkStoreGame, storeExportPath],
   );
 
   return (
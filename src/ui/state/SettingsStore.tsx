@@ -0,0 +1,136 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+import { LauncherSettings } from '../types';
+
+const DEFAULT_SETTINGS: LauncherSettings = {
+  maxConcurrentDownloads: 1,
+  maxChunkAttempts: 5,
+  bandwidthLimit: 0,
+  unlimitedSchedule: {
+    enabled: false,
+    start: '01:00',
+    end: '07:00',
+  },
+  minMirrorSpeed: 50 * 1024,
+  libraryFolders: [],
+  defaultLibraryFolder: '',
+  installShortcuts: [],
+};
+
+interface SettingsStoreValue {
+  settings: LauncherSettings;
+  loaded: boolean;
+  updateSettings: (
+    patch: Partial<LauncherSettings>,
+  ) => Promise<{ success: boolean; message?: string }>;
+  /** Library folders are picked in main's folder dialog; `updateSettings` cannot change them. */
+  addLibraryFolder: () => Promise<{ success: boolean; canceled?: boolean; message?: string }>;
+  removeLibraryFolder: (folderPath: string) => Promise<{ success: boolean; message?: string }>;
+}
+
+const SettingsStoreContext = createContext<SettingsStoreValue | undefined>(undefined);
+
+export const SettingsProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
+  const [settings, setSettings] = useState<LauncherSettings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getSettings) {
+      setLoaded(true);
+      return;
+    }
+
+    let active = true;
+
+    api
+      .getSettings()
+      .then((stored) => {
+        if (active) {
+          setSettings({ ...DEFAULT_SETTINGS, ...stored });
+        }
+      })
+      .catch((error) => console.warn('Falha ao carregar configurações', error))
+      .finally(() => {
+        if (active) {
+          setLoaded(true);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const updateSettings = useCallback(async (patch: Partial<LauncherSettings>) => {
+    const api = window.electronAPI;
+
+    if (!api?.updateSettings) {
+      return { success: false, message: 'Configurações não suportadas neste ambiente.' };
+    }
+
+    const result = await api.updateSettings(patch);
+
+    if (result?.success && result.settings) {
+      setSettings(result.settings);
+      return { success: true };
+    }
+
+    return { success: false, message: result?.message ?? 'Falha ao salvar configurações.' };
+  }, []);
+
+  const addLibraryFolder = useCallback(async () => {
+    const api = window.electronAPI;
+
+    if (!api?.addLibraryFolder) {
+      return { success: false, message: 'Seleção de pastas não suportada neste ambiente.' };
+    }
+
+    const result = await api.addLibraryFolder();
+
+    if (result?.success && result.settings) {
+      setSettings(result.settings);
+      return { success: true };
+    }
+
+    return { success: false, canceled: result?.canceled, message: result?.message };
+  }, []);
+
+  const removeLibraryFolder = useCallback(async (folderPath: string) => {
+    const api = window.electronAPI;
+
+    if (!api?.removeLibraryFolder) {
+      return { success: false, message: 'Configurações não suportadas neste ambiente.' };
+    }
+
+    const result = await api.removeLibraryFolder(folderPath);
+
+    if (result?.success && result.settings) {
+      setSettings(result.settings);
+      return { success: true };
+    }
+
+    return { success: false, message: result?.message ?? 'Não foi possível remover a pasta.' };
+  }, []);
+
+  const value = useMemo<SettingsStoreValue>(
+    () => ({ settings, loaded, updateSettings, addLibraryFolder, removeLibraryFolder }),
+    [settings, loaded, updateSettings, addLibraryFolder, removeLibraryFolder],
+  );
+
+  return (
+    <SettingsStoreContext.Provider value={value}>
+      {children}
+    </SettingsStoreContext.Provider>
+  );
+};
+
+export const useSettings = (): SettingsStoreValue => {
+  const context = useContext(SettingsStoreContext);
+
+  if (!context) {
+    throw new Error('useSettings deve ser usado dentro do SettingsProvider');
+  }
+
+  return context;
+};
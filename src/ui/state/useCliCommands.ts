@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+import { CliRequest, CliResult, GameExit, StoreDownloadStatus } from '../types';
+import { buildLaunchPayload } from '../utils/launchProfiles';
+import { sanitizeFileName } from '../utils/sanitizeFileName';
+import { useGameStore } from './GameStore';
+
+type GameStoreValue = ReturnType<typeof useGameStore>;
+
+const ACTIVE_DOWNLOAD_STATES: StoreDownloadStatus['state'][] = ['queued', 'downloading', 'verifying', 'extracting'];
+const FINAL_DOWNLOAD_STATES: StoreDownloadStatus['state'][] = [
+  'ready',
+  'failed',
+  'cancelled',
+  'paused',
+  'interrupted',
+  'awaitingExtraction',
+  'awaitingExecutableChoice',
+];
+
+/**
+ * Runs the commands given to `launcher-pir` on the command line against the
+ * same library and download state the UI uses, printing results through main.
+ */
+export const useCliCommands = () => {
+  const store = useGameStore();
+  const storeRef = useRef(store);
+  const waitersRef = useRef(new Set<() => void>());
+
+  useEffect(() => {
+    storeRef.current = store;
+    waitersRef.current.forEach((check) => check());
+  });
+
+  /** Resolves with the first value `select` returns for a rendered state. */
+  const waitForStore = useCallback(
+    <T>(select: (current: GameStoreValue) => T | undefined) =>
+      new Promise<T>((resolve) => {
+        const check = () => {
+          const value = select(storeRef.current);
+
+          if (value !== undefined) {
+            waitersRef.current.delete(check);
+            resolve(value);
+          }
+        };
+
+        waitersRef.current.add(check);
+        check();
+      }),
+    [],
+  );
+
+  const refreshCatalog = useCallback(async () => {
+    const { isRemoteStore, refreshRemoteStore, storeGames } = storeRef.current;
+
+    if (!isRemoteStore || !(await refreshRemoteStore())) {
+      return false;
+    }
+
+    await waitForStore((current) => (current.storeGames !== storeGames ? true : undefined));
+    return true;
+  }, [waitForStore]);
+
+  const listGames = useCallback(async (): Promise<CliResult> => {
+    await refreshCatalog();
+    const { games, storeGames } = storeRef.current;
+
+    return {
+      success: true,
+      games: games.map((game) => ({
+        id: game.id,
+        title: game.title,
+        installed: game.installed,
+        storeId: game.storeId,
+        installDirectory: game.installDirectory,
+        executablePath: game.executablePath,
+        lastPlayed: game.lastPlayed,
+        playtimeSeconds: game.playtimeSeconds ?? 0,
+      })),
+      storeGames: storeGames.map((game) => ({
+        id: game.id,
+        title: game.title,
+        state: game.downloadStatus?.state ?? 'idle',
+      })),
+    };
+  }, [refreshCatalog]);
+
+  const installGame = useCallback(
+    async (storeGameId: string): Promise<CliResult> => {
+      if (storeRef.current.isRemoteStore) {
+        await refreshCatalog();
+      }
+
+      const { games, storeGames, startStoreDownload, resumeExtraction } = storeRef.current;
+      const game = storeGames.find((entry) => entry.id === storeGameId);
+
+      if (!game) {
+        return { success: false, message: 'Jogo não encontrado na loja.' };
+      }
+
+      const installed = games.find((entry) => entry.storeId === game.id && entry.installed);
+
+      if (installed) {
+        return {
+          success: true,
+          message: `${game.title} já está instalado.`,
+          libraryEntryId: installed.id,
+          installDirectory: installed.installDirectory,
+          executablePath: installed.executablePath,
+        };
+      }
+
+      const previous = game.downloadStatus;
+
+      if (previous?.state === 'paused' || previous?.state === 'interrupted') {
+        return {
+          success: false,
+          state: previous.state,
+          message: `O download de ${game.title} está pausado; retome-o no launcher.`,
+        };
+      }
+
+      if (previous?.state === 'awaitingExecutableChoice') {
+        return {
+          success: false,
+          state: previous.state,
+          message: `Escolha o executável de ${game.title} no launcher.`,
+        };
+      }
+
+      if (previous?.state === 'awaitingExtraction') {
+        const result = await resumeExtraction(game.id);
+
+        if (!result.success) {
+          return { success: false, state: previous.state, message: result.message };
+        }
+      } else if (!previous || !ACTIVE_DOWNLOAD_STATES.includes(previous.state)) {
+        // No folder prompt here: main falls back to the default library folder.
+        await startStoreDownload(game.id, game.downloadUrl, sanitizeFileName(game.title));
+      }
+
+      const status = await waitForStore((current) => {
+        const next = current.storeGames.find((entry) => entry.id === game.id)?.downloadStatus;
+        return next && next !== previous && FINAL_DOWNLOAD_STATES.includes(next.state) ? next : undefined;
+      });
+
+      if (status.state !== 'ready') {
+        return {
+          success: false,
+          state: status.state,
+          message:
+            status.state === 'awaitingExecutableChoice'
+              ? `${game.title} foi baixado; escolha o executável no launcher.`
+              : 'message' in status && status.message
+                ? status.message
+                : `A instalação de ${game.title} não foi concluída.`,
+        };
+      }
+
+      const entry = storeRef.current.games.find((item) => item.storeId === game.id && item.installed);
+
+      return {
+        success: true,
+        state: status.state,
+        libraryEntryId: entry?.id,
+        installDirectory: entry?.installDirectory,
+        executablePath: entry?.executablePath,
+      };
+    },
+    [refreshCatalog, waitForStore],
+  );
+
+  const launchGame = useCallback(
+    async (gameId: string, request: CliRequest, report: (result: CliResult) => Promise<void>): Promise<CliResult> => {
+      const api = window.electronAPI;
+      const game = storeRef.current.games.find((entry) => entry.id === gameId && entry.installed);
+
+      if (!game?.executablePath) {
+        return { success: false, message: 'Jogo não encontrado na biblioteca.' };
+      }
+
+      if (!api) {
+        return { success: false, message: 'Iniciar jogos não é suportado neste ambiente.' };
+      }
+
+      // Subscribed before launching so a game that closes right away is not missed.
+      let stopWatching: () => void = () => undefined;
+      const exited = new Promise<GameExit>((resolve) => {
+        stopWatching = api.onGameExited((exit) => {
+          if (exit.gameId === game.id) {
+            stopWatching();
+            resolve(exit);
+          }
+        });
+      });
+
+      const result = await api.launchGame(buildLaunchPayload(game));
+
+      if (!result.success) {
+        stopWatching();
+        return { success: false, message: result.message, logPath: result.logPath };
+      }
+
+      storeRef.current.updateGame(game.id, { lastPlayed: new Date().toISOString() });
+
+      // Headless runs stay around until the game closes so the session still counts.
+      if (!request.headless || result.tracked === false) {
+        stopWatching();
+        return { success: true, tracked: result.tracked, startedAt: result.startedAt, hookWarning: result.hookWarning };
+      }
+
+      await report({ success: true, tracked: true, startedAt: result.startedAt, hookWarning: result.hookWarning });
+      const exit = await exited;
+      await waitForStore((current) => (current.runningGames[game.id] ? undefined : true));
+
+      return {
+        success: true,
+        event: 'exited',
+        endedAt: exit.endedAt,
+        durationSeconds: exit.durationSeconds,
+        exitCode: exit.exitCode,
+      };
+    },
+    [waitForStore],
+  );
+
+  const runRequest = useCallback(
+    async (request: CliRequest) => {
+      const api = window.electronAPI;
+      if (!api) {
+        return;
+      }
+
+      const { command } = request;
+      const report = (result: CliResult) =>
+        api.reportCliResult(request.id, {
+          command: command.action,
+          ...('id' in command ? { id: command.id } : {}),
+          ...result,
+        });
+      let result: CliResult;
+
+      try {
+        // Commands given at startup arrive before the saved library is read.
+        await waitForStore((current) => (current.loaded ? true : undefined));
+
+        switch (command.action) {
+          case 'list':
+            result = await listGames();
+            break;
+          case 'refresh-catalog':
+            result = storeRef.current.isRemoteStore
+              ? (await refreshCatalog())
+                ? { success: true, storeGames: storeRef.current.storeGames.length }
+                : { success: false, message: 'Não foi possível atualizar o catálogo remoto.' }
+              : { success: false, message: 'Nenhum catálogo remoto configurado.' };
+            break;
+          case 'install':
+            result = await installGame(command.id);
+            break;
+          case 'launch':
+            result = await launchGame(command.id, request, report);
+            break;
+        }
+      } catch (error) {
+        result = { success: false, message: error instanceof Error ? error.message : 'Erro inesperado.' };
+      }
+
+      await report(result);
+      await api.finishCliRequest(request.id, result.success);
+    },
+    [installGame, launchGame, listGames, refreshCatalog, waitForStore],
+  );
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.onCliRequest) {
+      return undefined;
+    }
+
+    const unsubscribe = api.onCliRequest(runRequest);
+    api.takePendingCliRequests().then((requests) => requests.forEach(runRequest));
+
+    return unsubscribe;
+  }, [runRequest]);
+};
@@ -9,6 +9,66 @@ export interface GameMetadata {
   size: string;
 }
 
+export type RunnerKind = 'auto' | 'native' | 'wine' | 'proton';
+
+/** How a game is started; `auto` runs natives directly and `.exe` through Wine off Windows. */
+export interface GameRunner {
+  kind: RunnerKind;
+  /** Wine binary or Proton's `proton` script; detected when empty. */
+  binaryPath?: string;
+  /** Wine/Proton prefix; the launcher keeps one per game when empty. */
+  prefixPath?: string;
+}
+
+/** A named way of starting the same executable, e.g. "Servidor dedicado". */
+export interface LaunchProfile {
+  id: string;
+  name: string;
+  args: string[];
+  /** Absolute, or relative to the executable's folder; the executable's folder when empty. */
+  cwd?: string;
+  env: Record<string, string>;
+}
+
+/** A program run around a game session, e.g. a LAN emulator before launch. */
+export interface GameHook {
+  command: string;
+  args: string[];
+  timeoutSeconds: number;
+  /** Pre-launch only: a failing hook stops the game from starting. */
+  abortOnFailure: boolean;
+  /** Leave the program running instead of waiting for it to finish. */
+  background: boolean;
+}
+
+export interface GameHooks {
+  preLaunch?: GameHook;
+  postExit?: GameHook;
+}
+
+export interface GameHookFailure {
+  gameId: string;
+  phase: keyof GameHooks;
+  message: string;
+  logPath: string;
+}
+
+export interface GameLaunchPayload {
+  executablePath: string;
+  gameId?: string;
+  runner?: GameRunner;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  hooks?: GameHooks;
+}
+
+export interface RunnerInstallation {
+  kind: 'wine' | 'proton';
+  name: string;
+  path: string;
+}
+
 export interface GameEntry extends GameMetadata {
   installed: boolean;
   executablePath?: string;
@@ -17,6 +77,68 @@ export interface GameEntry extends GameMetadata {
   isCustom?: boolean;
   installDate?: string;
   lastPlayed?: string;
+  runner?: GameRunner;
+  launchProfiles?: LaunchProfile[];
+  /** Profile used by "Jogar"; the first one when unset. */
+  activeLaunchProfileId?: string;
+  hooks?: GameHooks;
+  /** Seconds played across every tracked session. */
+  playtimeSeconds?: number;
+  /** Most recent sessions first, capped so the saved library stays small. */
+  playSessions?: PlaySession[];
+  /** Shortcut files written for this game, removed again when it is uninstalled. */
+  shortcuts?: string[];
+}
+
+export interface PlaySession {
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  exitCode: number | null;
+}
+
+export interface RunningGame {
+  gameId: string;
+  pid?: number;
+  startedAt: string;
+}
+
+export interface GameExit extends RunningGame {
+  endedAt: string;
+  durationSeconds: number;
+  exitCode: number | null;
+  signal: string | null;
+}
+
+export type ShortcutLocation = 'desktop' | 'startMenu';
+
+/** `launcher` goes through a launcherpir://launch link so playtime is still tracked. */
+export type ShortcutTarget = 'launcher' | 'executable';
+
+/** `launcherpir://<action>/<id>`: store and install take a store game id, launch a library entry id. */
+export interface DeepLink {
+  action: 'store' | 'install' | 'launch';
+  id: string;
+}
+
+export type CliCommand =
+  | { action: 'list' }
+  | { action: 'refresh-catalog' }
+  | { action: 'launch'; id: string }
+  | { action: 'install'; id: string };
+
+/** A command given to `launcher-pir` on the command line, run by the renderer. */
+export interface CliRequest {
+  id: string;
+  command: CliCommand;
+  /** No window is shown; main quits once the request is finished. */
+  headless: boolean;
+}
+
+export interface CliResult {
+  success: boolean;
+  message?: string;
+  [key: string]: unknown;
 }
 
 export interface GameInstallPayload {
@@ -32,6 +154,15 @@ export type GameCreatePayload = Omit<
   heroUrl?: string;
 };
 
+export type ArchiveFormat = 'zip' | '7z' | 'rar' | 'tar' | 'tar.gz' | 'tar.xz';
+
+export interface StoreDownloadPart {
+  url: string;
+  sizeBytes?: number;
+  /** Hex SHA-256 of this part alone. */
+  sha256?: string;
+}
+
 export interface StoreGame {
   id: string;
   title: string;
@@ -43,21 +174,77 @@ export interface StoreGame {
   size?: string;
   downloadUrl: string;
   expectedExecutable?: string;
+  /** Hex SHA-256 of the archive, checked after the download finishes. */
+  sha256?: string;
+  sizeBytes?: number;
+  /** Alternative sources tried in order when `downloadUrl` fails or is too slow. */
+  mirrors?: string[];
+  /** Only needed when the archive cannot be recognized by its contents. */
+  archiveFormat?: ArchiveFormat;
+  /**
+   * Ordered pieces of an archive split by the host (`game.part1.rar`, `game.zip.001`…).
+   * When present `downloadUrl` is the first part and `sha256`/`sizeBytes` are ignored.
+   */
+  downloadParts?: StoreDownloadPart[];
   createdAt: string;
   downloadStatus?: StoreDownloadStatus;
   libraryEntryId?: string;
 }
 
+export interface ExecutableCandidate {
+  path: string;
+  /** Relative to the install directory. */
+  relativePath: string;
+  size: number;
+  score: number;
+}
+
 export type StoreDownloadStatus =
   | { state: 'idle' }
-  | { state: 'queued' }
-  | { state: 'downloading'; received: number; total?: number; speed?: number }
-  | { state: 'extracting'; filePath: string; received?: number; total?: number }
+  | { state: 'queued'; position?: number; queueLength?: number }
+  | {
+      state: 'downloading';
+      received: number;
+      total?: number;
+      speed?: number;
+      /** 1-based part being fetched, for multi-part downloads. */
+      part?: number;
+      partCount?: number;
+    }
+  | {
+      state: 'verifying';
+      filePath: string;
+      received: number;
+      total?: number;
+      part?: number;
+      partCount?: number;
+    }
+  | {
+      state: 'extracting';
+      filePath: string;
+      /** Uncompressed bytes written so far and the archive's uncompressed size. */
+      received?: number;
+      total?: number;
+      entriesProcessed?: number;
+      entriesTotal?: number;
+      /** Estimated seconds left. */
+      eta?: number;
+    }
   | {
       state: 'awaitingExtraction';
       filePath: string;
       totalBytes?: number;
       requestedAt: string;
+      message?: string;
+    }
+  | {
+      state: 'awaitingExecutableChoice';
+      filePath: string;
+      totalBytes?: number;
+      completedAt: string;
+      installDirectory: string;
+      /** Best ranked first. */
+      candidates: ExecutableCandidate[];
     }
   | {
       state: 'ready';
@@ -67,13 +254,81 @@ export type StoreDownloadStatus =
       installDirectory: string;
       executablePath: string;
     }
-  | { state: 'failed'; message: string; finishedAt: string }
+  | {
+      state: 'paused';
+      filePath: string;
+      received: number;
+      total?: number;
+      pausedAt: string;
+    }
+  | {
+      state: 'interrupted';
+      filePath: string;
+      received: number;
+      total?: number;
+      message?: string;
+      finishedAt: string;
+    }
+  | { state: 'failed'; message: string; finishedAt: string; retryable?: boolean }
   | { state: 'cancelled'; message: string; finishedAt: string };
 
 export type StoreGameCreatePayload = Omit<StoreGame, 'id' | 'createdAt' | 'downloadStatus'>;
 
 export type DownloadRecordState = StoreDownloadStatus['state'];
 
+export interface DownloadHostDescriptor {
+  id: string;
+  label: string;
+  /** Host names matched exactly or as a parent domain; `*` accepts any HTTPS host. */
+  hosts: string[];
+  pathPattern?: string;
+}
+
+export interface BandwidthSchedule {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface LauncherSettings {
+  maxConcurrentDownloads: number;
+  maxChunkAttempts: number;
+  /** Bytes per second; 0 means unlimited. */
+  bandwidthLimit: number;
+  unlimitedSchedule: BandwidthSchedule;
+  /** Bytes per second; 0 disables switching mirrors because of speed. */
+  minMirrorSpeed: number;
+  libraryFolders: string[];
+  defaultLibraryFolder: string;
+  /** Shortcuts written when a store game finishes installing; empty disables the step. */
+  installShortcuts: ShortcutLocation[];
+}
+
+export interface InstallationMoveEvent {
+  gameId: string;
+  state: 'copying' | 'verifying' | 'removing' | 'completed' | 'failed' | 'cancelled';
+  processed?: number;
+  total?: number;
+  installDirectory?: string;
+  executablePath?: string;
+  message?: string;
+}
+
+export interface LibraryFolderInfo {
+  path: string;
+  isDefault: boolean;
+  exists: boolean;
+  free?: number;
+  total?: number;
+}
+
+/** Saved by main in the user data folder. */
+export interface LibraryData {
+  games: GameEntry[];
+  storeGames: StoreGame[];
+  downloadRecords: DownloadRecord[];
+}
+
 export interface DownloadRecord {
   id: string;
   gameId: string;
@@ -83,6 +338,15 @@ export interface DownloadRecord {
   installDirectory?: string;
   executablePath?: string;
   sizeBytes?: number;
+  receivedBytes?: number;
+  bandwidthLimit?: number;
+  /** Range chunks that had to be fetched again during the last run. */
+  retryCount?: number;
+  /** Source actually used, which differs from `sourceUrl` when a mirror took over. */
+  mirrorUrl?: string;
+  /** Multi-part downloads only: part being fetched (1-based) and how many there are. */
+  currentPart?: number;
+  partCount?: number;
   state: DownloadRecordState;
   startedAt: string;
   finishedAt?: string;
@@ -0,0 +1,12 @@
+import { ArchiveFormat } from '../types';
+
+export const ARCHIVE_FORMAT_LABELS: Record<ArchiveFormat, string> = {
+  zip: 'ZIP',
+  '7z': '7-Zip (.7z)',
+  rar: 'RAR',
+  tar: 'tar',
+  'tar.gz': 'tar.gz',
+  'tar.xz': 'tar.xz',
+};
+
+export const ARCHIVE_FORMATS = Object.keys(ARCHIVE_FORMAT_LABELS) as ArchiveFormat[];
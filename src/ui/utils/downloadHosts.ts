@@ -0,0 +1,32 @@
+import { DownloadHostDescriptor } from '../types';
+
+// Mirrors the matching rules of the resolver registry in the main process.
+const matchesHost = (hostname: string, host: string) =>
+  host === '*' || hostname === host || hostname.endsWith(`.${host}`);
+
+export const findDownloadHost = (hosts: DownloadHostDescriptor[], rawUrl: string) => {
+  let url: URL;
+
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return undefined;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return undefined;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+
+  return hosts.find((descriptor) => {
+    if (descriptor.hosts.includes('*') && url.protocol !== 'https:') {
+      return false;
+    }
+
+    return (
+      descriptor.hosts.some((host) => matchesHost(hostname, host)) &&
+      (!descriptor.pathPattern || new RegExp(descriptor.pathPattern).test(url.pathname))
+    );
+  });
+};
@@ -0,0 +1,15 @@
+export const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours > 0) {
+    return `${hours} h ${String(minutes).padStart(2, '0')} min`;
+  }
+
+  if (minutes > 0) {
+    return `${minutes} min ${String(seconds % 60).padStart(2, '0')} s`;
+  }
+
+  return `${seconds} s`;
+};
@@ -0,0 +1,2 @@
+/** Renderer-side `path.dirname` for both Windows and POSIX paths. */
+export const getParentFolder = (filePath: string) => filePath.replace(/[\\/]+[^\\/]+[\\/]*$/, '');
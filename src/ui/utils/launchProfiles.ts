@@ -0,0 +1,89 @@
+import { GameEntry, GameLaunchPayload, LaunchProfile } from '../types';
+
+/** Splits on whitespace but keeps quoted parts together; backslashes stay as-is for Windows paths. */
+export const parseLaunchArgs = (value: string): string[] => {
+  const args: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && value[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (hasToken) {
+    args.push(current);
+  }
+
+  return args;
+};
+
+export const formatLaunchArgs = (args: string[]) =>
+  args.map((arg) => (arg === '' || /[\s"']/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg)).join(' ');
+
+/** One `NOME=valor` per line; blank lines and `#` comments are ignored. */
+export const parseEnvLines = (value: string): { env: Record<string, string>; invalid: string[] } => {
+  const env: Record<string, string> = {};
+  const invalid: string[] = [];
+
+  value.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const separator = trimmed.indexOf('=');
+    const name = separator > 0 ? trimmed.slice(0, separator).trim() : '';
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      invalid.push(trimmed);
+      return;
+    }
+
+    env[name] = trimmed.slice(separator + 1);
+  });
+
+  return { env, invalid };
+};
+
+export const formatEnvLines = (env: Record<string, string>) =>
+  Object.entries(env)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+
+export const getActiveLaunchProfile = (game: GameEntry): LaunchProfile | undefined =>
+  game.launchProfiles?.find((profile) => profile.id === game.activeLaunchProfileId) ?? game.launchProfiles?.[0];
+
+export const buildLaunchPayload = (game: GameEntry, profile = getActiveLaunchProfile(game)): GameLaunchPayload => ({
+  executablePath: game.executablePath ?? '',
+  gameId: game.id,
+  runner: game.runner,
+  args: profile?.args,
+  cwd: profile?.cwd,
+  env: profile?.env,
+  hooks: game.hooks,
+});
@@ -0,0 +1,6 @@
+/** Archive base name for a store download; main appends the extension. */
+export const sanitizeFileName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || `jogo-${Date.now()}`;